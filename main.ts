@@ -1,22 +1,94 @@
-import { App, Editor, ItemView, MarkdownView, Modal, Notice, Plugin, PluginSettingTab, Setting, WorkspaceLeaf } from 'obsidian';
-import { Contact, ContactsPluginSettings, DEFAULT_SETTINGS } from './src/types';
+import { App, debounce, Modal, Notice, normalizePath, Plugin, PluginSettingTab, Setting, TextComponent, TFile, WorkspaceLeaf } from 'obsidian';
+import { Contact, ContactsPluginSettings, CUSTOM_FIELD_TYPES, CustomFieldType, CustomFieldValue, DEFAULT_SETTINGS, DEFAULT_VIEW_STATE, LabeledValue, PostalAddress } from './src/types';
 import { ContactView, CONTACTS_VIEW_TYPE } from './src/ContactView';
-import { ContactManager } from './src/ContactManager';
+import { DASHBOARD_VIEW_TYPE, DashboardView } from './src/DashboardView';
+import { ContactManager, ContactSnapshot } from './src/ContactManager';
+import { ContactsApi } from './src/ContactsApi';
+import { normalizeFrequency } from './src/frequency';
+import { formatDisplayDate, localToTimestamp, nowTimestamp, parseDate, toLocalDateTime, toTimestamp } from './src/dates';
+import { ReminderManager } from './src/reminders';
+import { OverdueContactsModal } from './src/OverdueContactsModal';
+import { UpcomingDatesModal } from './src/UpcomingDatesModal';
+import { getUpcomingDates, parseMonthDay } from './src/birthdays';
+import { formatAddress, isValidEmail, isValidPhone, toE164 } from './src/contactDetails';
+import { ExportVCardModal } from './src/ExportVCardModal';
+import { findLinkedContact, RELATIONSHIP_TYPES } from './src/relationships';
+import { ContactSuggestModal } from './src/ContactSuggestModal';
+import { ConfirmModal } from './src/ConfirmModal';
+import { BulkEdit, BulkEditModal } from './src/BulkEditModal';
+import { LogInteractionModal } from './src/LogInteractionModal';
+import { QuickCaptureModal } from './src/QuickCaptureModal';
+import { parseSignature } from './src/signature';
+import { ContactEditorSuggest } from './src/ContactEditorSuggest';
+import { DuplicateContactsModal } from './src/DuplicateContactsModal';
+import { MergeContactsModal } from './src/MergeContactsModal';
+import { validateCustomValue, validateFieldKey } from './src/customFields';
+import { findDuplicates, mergeContactFields, normalizeName } from './src/duplicates';
+import { CsvImportModal, CsvImportReport, ExistingContactPolicy } from './src/CsvImportModal';
+import { CsvExportModal } from './src/CsvExportModal';
+import { contactsToCsv, CSV_EXPORT_FIELDS, CsvRowResult, parseCsv } from './src/csv';
+import { contactsToVCard, parseVCards, vCardToContact } from './src/vcard';
+import { contactsToICalendar } from './src/ics';
+
+// Undo stays on offer in the notice for this long
+const UNDO_NOTICE_MS = 10000;
+
+const BULK_EDIT_DONE: Record<BulkEdit['action'], string> = {
+	'add-tags': 'Tagged',
+	'remove-tags': 'Untagged',
+	'frequency': 'Set the frequency of',
+	'mark-contacted': 'Marked as contacted',
+	'reschedule': 'Rescheduled',
+};
+
+// "Ann, Bob and 3 more" for notices
+function listNames(names: string[], max = 3): string {
+	return names.length > max ? `${names.slice(0, max).join(', ')} and ${names.length - max} more` : names.join(', ');
+}
 
 export default class ContactsPlugin extends Plugin {
-	NewContactModal = NewContactModal;
 	settings: ContactsPluginSettings;
 	contactManager: ContactManager;
+	/** For scripts and other plugins; see ContactsApi */
+	api: ContactsApi;
 	contactView: ContactView | null = null;
+	reminderManager: ReminderManager;
+	// How the contacts of the last bulk change looked before it, for undo
+	private lastBulkSnapshots: ContactSnapshot[] = [];
 
 	async onload() {
 		await this.loadSettings();
-		this.contactManager = new ContactManager(this.app.vault, this.settings.contactsFolder);
+		this.contactManager = new ContactManager(this.app, this.settings);
+		this.api = new ContactsApi(this.contactManager, () => this.settings);
 
 		// Register view type
 		this.registerView(
 			CONTACTS_VIEW_TYPE,
-			(leaf: WorkspaceLeaf) => (this.contactView = new ContactView(leaf))
+			(leaf: WorkspaceLeaf) => (this.contactView = new ContactView(
+				leaf,
+				this.settings.viewState,
+				() => this.saveSettings(),
+				this.settings.defaultView,
+				() => this.settings.customFields,
+				() => this.settings.dateFormat,
+				{
+					create: () => new NewContactModal(this.app, this).open(),
+					openFile: contact => this.openContactNote(contact),
+					edit: contact => new NewContactModal(this.app, this, contact).open(),
+					markContacted: contact => this.markContacted(contact),
+					logInteraction: contact => this.openLogInteraction(contact),
+					archive: contacts => this.archiveContacts(contacts),
+					restore: contacts => this.restoreContacts(contacts),
+					delete: contacts => this.deleteContacts(contacts),
+					bulkEdit: contacts => this.bulkEditContacts(contacts),
+					export: (contacts, format) => this.exportContacts(contacts, format),
+					openDashboard: () => this.activateDashboard(),
+				},
+			))
+		);
+		this.registerView(
+			DASHBOARD_VIEW_TYPE,
+			(leaf: WorkspaceLeaf) => new DashboardView(leaf, this.api, contact => this.openContactNote(contact)),
 		);
 
 		// Add ribbon icon
@@ -27,6 +99,28 @@ export default class ContactsPlugin extends Plugin {
 			ribbonIconEl.addClass('contacts-plugin-ribbon-class');
 		}
 
+		// Status bar count of due contacts, refreshed by the reminder checks
+		const statusBarEl = this.addStatusBarItem();
+		statusBarEl.onClickEvent(() => this.openOverdueContacts());
+		this.reminderManager = new ReminderManager(
+			statusBarEl,
+			() => this.contactManager.getAllContacts(),
+			() => this.settings,
+		);
+		this.app.workspace.onLayoutReady(() => {
+			this.reminderManager.start();
+			this.registerVaultEvents();
+			// Fill in views restored with the workspace
+			this.refreshContactView();
+		});
+
+		this.registerEditorSuggest(new ContactEditorSuggest(
+			this.app,
+			() => this.settings.mentionTrigger,
+			() => this.contactManager.getAllContacts(),
+			(contact, sourcePath) => this.contactManager.linkToContact(contact, sourcePath),
+		));
+
 		// Add commands
 		this.addCommand({
 			id: 'open-contacts-view',
@@ -44,6 +138,156 @@ export default class ContactsPlugin extends Plugin {
 			},
 		});
 
+		this.addCommand({
+			id: 'quick-capture-contact',
+			name: 'Quick capture contact from selection or signature',
+			callback: () => {
+				const selection = this.app.workspace.activeEditor?.editor?.getSelection().trim();
+				if (selection) this.captureContact(selection);
+				else new QuickCaptureModal(this.app, text => this.captureContact(text)).open();
+			},
+		});
+
+		this.addCommand({
+			id: 'open-dashboard',
+			name: 'Open contacts dashboard',
+			callback: () => this.activateDashboard(),
+		});
+
+		this.addCommand({
+			id: 'overdue-contacts',
+			name: 'Overdue contacts',
+			callback: () => {
+				this.openOverdueContacts();
+			},
+		});
+
+		this.addCommand({
+			id: 'upcoming-birthdays',
+			name: 'Upcoming birthdays',
+			callback: async () => {
+				const days = this.settings.upcomingDatesDays;
+				const dates = getUpcomingDates(await this.contactManager.getAllContacts(), days);
+				new UpcomingDatesModal(this.app, dates, days).open();
+			},
+		});
+
+		this.addCommand({
+			id: 'log-interaction',
+			name: 'Log interaction',
+			callback: async () => {
+				const file = this.app.workspace.getActiveFile();
+				const current = file && this.contactManager.isContactFile(file)
+					? await this.contactManager.getContactFromFile(file)
+					: null;
+				if (current) {
+					this.openLogInteraction(current);
+					return;
+				}
+				const contacts = await this.contactManager.getAllContacts();
+				new ContactSuggestModal(this.app, contacts, contact => this.openLogInteraction(contact)).open();
+			},
+		});
+
+		this.addCommand({
+			id: 'archive-contact',
+			name: 'Archive contact',
+			callback: () => this.pickContact(false, contact => this.archiveContacts([contact])),
+		});
+
+		this.addCommand({
+			id: 'restore-contact',
+			name: 'Restore archived contact',
+			callback: () => this.pickContact(true, contact => this.restoreContacts([contact])),
+		});
+
+		this.addCommand({
+			id: 'delete-contact',
+			name: 'Delete contact',
+			callback: () => this.pickContact(false, contact => this.deleteContacts([contact])),
+		});
+
+		this.addCommand({
+			id: 'undo-bulk-change',
+			name: 'Undo last bulk change to contacts',
+			checkCallback: (checking: boolean) => {
+				if (!this.lastBulkSnapshots.length) return false;
+				if (!checking) this.undoBulkChange();
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: 'find-duplicate-contacts',
+			name: 'Find duplicate contacts',
+			callback: () => {
+				this.openDuplicates();
+			},
+		});
+
+		this.addCommand({
+			id: 'import-vcard',
+			name: 'Import vCard',
+			callback: () => {
+				this.importVCard();
+			},
+		});
+
+		this.addCommand({
+			id: 'export-vcard',
+			name: 'Export vCard',
+			callback: async () => {
+				const contacts = await this.contactManager.getAllContacts();
+				if (!contacts.length) {
+					new Notice('No contacts to export');
+					return;
+				}
+				new ExportVCardModal(this.app, contacts, selected => {
+					const fileName = selected.length === contacts.length ? this.settings.contactsFolder : 'Contacts selection';
+					this.exportVCard(selected, fileName);
+				}).open();
+			},
+		});
+
+		this.addCommand({
+			id: 'import-csv',
+			name: 'Import CSV',
+			callback: () => {
+				this.importCsv();
+			},
+		});
+
+		this.addCommand({
+			id: 'export-csv',
+			name: 'Export CSV',
+			callback: () => {
+				this.openCsvExport();
+			},
+		});
+
+		this.addCommand({
+			id: 'export-calendar',
+			name: 'Export calendar (.ics)',
+			callback: () => {
+				this.exportCalendar();
+			},
+		});
+
+		this.addCommand({
+			id: 'export-current-contact-vcard',
+			name: 'Export current contact as vCard',
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !this.contactManager.isContactFile(file)) return false;
+				if (!checking) {
+					this.contactManager.getContactFromFile(file).then(contact => {
+						if (contact) this.exportVCard([contact], file.basename);
+					});
+				}
+				return true;
+			},
+		});
+
 		// Add settings tab
 		this.addSettingTab(new ContactsSettingTab(this.app, this));
 	}
@@ -70,19 +314,471 @@ export default class ContactsPlugin extends Plugin {
 			workspace.revealLeaf(leaf);
 
 			// Load contacts
-			if (this.contactView) {
-				const contacts = await this.contactManager.getAllContacts();
-				this.contactView.setContacts(contacts);
+			await this.refreshContactView();
+		}
+	}
+
+	async activateDashboard() {
+		const { workspace } = this.app;
+		const leaf = workspace.getLeavesOfType(DASHBOARD_VIEW_TYPE)[0] || workspace.getLeaf('tab');
+		await leaf.setViewState({ type: DASHBOARD_VIEW_TYPE, active: true });
+		workspace.revealLeaf(leaf);
+	}
+
+	openContactNote(contact: Contact) {
+		if (contact.path) this.app.workspace.openLinkText(contact.path, '');
+	}
+
+	async openOverdueContacts() {
+		const due = await this.reminderManager.check();
+		new OverdueContactsModal(this.app, due, {
+			markContacted: contact => this.markContacted(contact),
+			snooze: (contact, days) => {
+				const until = new Date();
+				until.setDate(until.getDate() + days);
+				return this.setNextContact(contact, toTimestamp(until));
+			},
+			reschedule: (contact, date) => this.setNextContact(contact, localToTimestamp(date) || date),
+			refresh: () => this.reminderManager.check(),
+		}, this.settings.dateFormat).open();
+	}
+
+	/**
+	 * Record contact at `date` (now by default, earlier to back-date it) and
+	 * schedule the next one from there.
+	 */
+	async markContacted(contact: Contact, date: Date = new Date()) {
+		await this.api.markContacted(contact, date);
+		await this.refreshContactView();
+	}
+
+	async setNextContact(contact: Contact, nextContact: string) {
+		await this.api.updateContact({ ...contact, next_contact: nextContact });
+		await this.refreshContactView();
+	}
+
+	// The contact open in the editor, or one picked from a list
+	private async pickContact(archived: boolean, onChoose: (contact: Contact) => void) {
+		const file = this.app.workspace.getActiveFile();
+		const current = file && this.contactManager.isContactFile(file)
+			? await this.contactManager.getContactFromFile(file)
+			: null;
+		if (current && !!current.archived === archived) {
+			onChoose(current);
+			return;
+		}
+		const contacts = (await this.contactManager.getAllContacts(true)).filter(contact => !!contact.archived === archived);
+		if (!contacts.length) {
+			new Notice(archived ? 'No archived contacts' : 'No contacts');
+			return;
+		}
+		new ContactSuggestModal(this.app, contacts, onChoose).open();
+	}
+
+	archiveContacts(contacts: Contact[]) {
+		const what = contacts.length === 1 ? contacts[0].name : `${contacts.length} contacts`;
+		new ConfirmModal(
+			this.app,
+			`Archive ${what}?`,
+			`Archived contacts move to the "${this.settings.archiveFolder}" folder and are hidden from the contacts view and reminders. You can restore them later.`,
+			'Archive',
+			() => this.applyToContacts(contacts, contact => this.contactManager.archiveContact(contact), 'Archived', true),
+		).open();
+	}
+
+	restoreContacts(contacts: Contact[]) {
+		return this.applyToContacts(contacts, contact => this.contactManager.restoreContact(contact), 'Restored', true);
+	}
+
+	deleteContacts(contacts: Contact[]) {
+		const what = contacts.length === 1 ? contacts[0].name : `${contacts.length} contacts`;
+		new ConfirmModal(
+			this.app,
+			`Delete ${what}?`,
+			'The notes are removed as your "Deleted files" setting says, and links to them will stop resolving. Archive instead to keep them.',
+			'Delete',
+			() => this.applyToContacts(contacts, contact => this.contactManager.deleteContact(contact), 'Deleted'),
+			true,
+		).open();
+	}
+
+	bulkEditContacts(contacts: Contact[]) {
+		new BulkEditModal(this.app, contacts.length, edit => this.applyToContacts(
+			contacts,
+			contact => this.applyBulkEdit(contact, edit),
+			BULK_EDIT_DONE[edit.action],
+			true,
+		)).open();
+	}
+
+	private async applyBulkEdit(contact: Contact, edit: BulkEdit): Promise<void> {
+		switch (edit.action) {
+			case 'add-tags': {
+				const tags = contact.tags || [];
+				await this.api.updateContact({ ...contact, tags: [...tags, ...edit.tags.filter(tag => !tags.includes(tag))] });
+				break;
+			}
+			case 'remove-tags': {
+				const removed = edit.tags.map(tag => tag.toLowerCase());
+				await this.api.updateContact({ ...contact, tags: contact.tags?.filter(tag => !removed.includes(tag.toLowerCase())) });
+				break;
+			}
+			case 'frequency': {
+				const updated: Contact = { ...contact, contact_frequency: edit.frequency || undefined };
+				// Reschedule from the last contact, as saving the edit form does
+				if (updated.last_contacted) {
+					updated.next_contact = this.api.nextContactFor(updated, updated.last_contacted) || updated.next_contact;
+				}
+				await this.api.updateContact(updated);
+				break;
+			}
+			case 'mark-contacted':
+				await this.api.markContacted(contact, edit.date);
+				break;
+			case 'reschedule':
+				await this.api.updateContact({ ...contact, next_contact: edit.nextContact });
+				break;
+		}
+	}
+
+	async exportContacts(contacts: Contact[], format: 'vcard' | 'csv') {
+		try {
+			if (format === 'vcard') {
+				await this.exportVCard(contacts, 'Contacts selection');
+				return;
+			}
+			const fields = CSV_EXPORT_FIELDS.map(field => field.key);
+			const path = await this.writeExportFile('Contacts selection.csv', contactsToCsv(contacts, fields));
+			new Notice(`Exported ${contacts.length} contacts to ${path}`);
+		} catch (error) {
+			console.error('Error exporting contacts:', error);
+			new Notice(`Could not export contacts: ${error instanceof Error ? error.message : error}`);
+		}
+	}
+
+	/**
+	 * Run an action on each contact; the ones that fail are named in the
+	 * notice and the rest carry on. With `undoable`, each contact's note is
+	 * snapshotted first and the notice offers to undo the whole run.
+	 */
+	private async applyToContacts(contacts: Contact[], action: (contact: Contact) => Promise<void>, done: string, undoable = false) {
+		const failed: string[] = [];
+		const snapshots: ContactSnapshot[] = [];
+		for (const contact of contacts) {
+			try {
+				const snapshot = undoable ? await this.contactManager.snapshotContact(contact) : null;
+				await action(contact);
+				if (snapshot) snapshots.push(snapshot);
+			} catch (error) {
+				console.error(`Error with contact ${contact.name}:`, error);
+				failed.push(contact.name);
+			}
+		}
+
+		const succeeded = contacts.length - failed.length;
+		const message = failed.length
+			? `${done} ${succeeded} of ${contacts.length} contacts. Failed: ${listNames(failed)}`
+			: contacts.length === 1 ? `${done} ${contacts[0].name}` : `${done} ${succeeded} contacts`;
+		if (snapshots.length) {
+			this.lastBulkSnapshots = snapshots;
+			new Notice(createFragment(fragment => {
+				fragment.appendText(message);
+				const undo = fragment.createEl('button', { text: 'Undo', cls: 'contacts-notice-button' });
+				undo.onclick = () => this.undoBulkChange();
+			}), UNDO_NOTICE_MS);
+		} else {
+			new Notice(message);
+		}
+		await this.refreshContactView();
+	}
+
+	/**
+	 * Put the contacts of the last bulk change back as they were: their
+	 * frontmatter, and where they were if the change moved them.
+	 */
+	async undoBulkChange() {
+		const snapshots = this.lastBulkSnapshots;
+		if (!snapshots.length) return;
+		this.lastBulkSnapshots = [];
+		const failed: string[] = [];
+		for (const snapshot of snapshots) {
+			try {
+				await this.contactManager.restoreSnapshot(snapshot);
+			} catch (error) {
+				console.error(`Error restoring ${snapshot.path}:`, error);
+				failed.push(String(snapshot.frontmatter.name || snapshot.path));
+			}
+		}
+		new Notice(failed.length
+			? `Undid the change for ${snapshots.length - failed.length} of ${snapshots.length} contacts. Failed: ${listNames(failed)}`
+			: `Undid the change for ${snapshots.length} contacts`);
+		await this.refreshContactView();
+	}
+
+	/**
+	 * Open the new contact form prefilled with whatever could be picked out
+	 * of `text`, such as an email signature, for the user to check.
+	 */
+	captureContact(text: string) {
+		const draft = parseSignature(text);
+		if (!Object.keys(draft).length) new Notice('No contact details found; please fill them in');
+		new NewContactModal(this.app, this, undefined, draft).open();
+	}
+
+	openLogInteraction(contact: Contact) {
+		new LogInteractionModal(this.app, contact, async interaction => {
+			try {
+				await this.contactManager.logInteraction(contact, interaction);
+			} catch (error) {
+				console.error(`Error logging interaction with ${contact.name}:`, error);
+				new Notice(`Could not log interaction with ${contact.name}: ${error instanceof Error ? error.message : error}`);
+				return;
 			}
+			new Notice(`Logged interaction with ${contact.name}`);
+			await this.refreshContactView();
+		}).open();
+	}
+
+	importVCard() {
+		const input = document.createElement('input');
+		input.type = 'file';
+		input.accept = '.vcf,text/vcard';
+		input.multiple = true;
+		input.onchange = async () => {
+			const now = nowTimestamp();
+			let imported = 0;
+			const failed: string[] = [];
+			for (const file of Array.from(input.files || [])) {
+				const cards = parseVCards(await file.text());
+				for (const card of cards) {
+					try {
+						await this.contactManager.createContact(vCardToContact(card, now));
+						imported++;
+					} catch (error) {
+						console.error(`Error importing contact ${card.name}:`, error);
+						failed.push(card.name);
+					}
+				}
+			}
+			new Notice(failed.length
+				? `Imported ${imported} of ${imported + failed.length} contacts. Failed: ${listNames(failed)}`
+				: `Imported ${imported} contacts`);
+			await this.refreshContactView();
+		};
+		input.click();
+	}
+
+	async exportVCard(contacts: Contact[], fileName: string) {
+		const path = await this.writeExportFile(`${fileName}.vcf`, contactsToVCard(contacts));
+		new Notice(`Exported ${contacts.length} contacts to ${path}`);
+	}
+
+	/**
+	 * Write the calendar file from the settings. The file is only touched
+	 * when its content changed, so subscribed calendars don't resync for
+	 * nothing.
+	 */
+	async exportCalendar(notify = true) {
+		const contacts = await this.contactManager.getAllContacts();
+		const vaultName = encodeURIComponent(this.app.vault.getName());
+		const content = contactsToICalendar(contacts, {
+			tagFrequencies: this.settings.tagFrequencies,
+			noteUrl: contact => `obsidian://open?vault=${vaultName}&file=${encodeURIComponent(contact.path || '')}`,
+		});
+		const path = normalizePath(this.settings.calendarFile || DEFAULT_SETTINGS.calendarFile);
+		const existing = this.app.vault.getAbstractFileByPath(path);
+		if (existing instanceof TFile) {
+			if (await this.app.vault.read(existing) !== content) await this.app.vault.modify(existing, content);
+		} else {
+			const folder = path.split('/').slice(0, -1).join('/');
+			if (folder && !this.app.vault.getAbstractFileByPath(folder)) await this.app.vault.createFolder(folder);
+			await this.app.vault.create(path, content);
 		}
+		if (notify) new Notice(`Exported the calendar of ${contacts.length} contacts to ${path}`);
+	}
+
+	// Exports go to the vault root, replacing an earlier export of the same name
+	private async writeExportFile(fileName: string, content: string): Promise<string> {
+		const path = normalizePath(fileName.replace(/[\\/:*?"<>|]/g, '-'));
+		const existing = this.app.vault.getAbstractFileByPath(path);
+		if (existing instanceof TFile) {
+			await this.app.vault.modify(existing, content);
+		} else {
+			await this.app.vault.create(path, content);
+		}
+		return path;
+	}
+
+	importCsv() {
+		const input = document.createElement('input');
+		input.type = 'file';
+		input.accept = '.csv,text/csv';
+		input.onchange = async () => {
+			const file = input.files?.[0];
+			if (!file) return;
+			const rows = parseCsv(await file.text());
+			if (rows.length < 2) {
+				new Notice('The CSV file has no rows to import');
+				return;
+			}
+			new CsvImportModal(this.app, file.name, rows[0].cells, rows.slice(1), this.settings.defaultCountryCode,
+				(results, policy) => this.importCsvContacts(results, policy)).open();
+		};
+		input.click();
+	}
+
+	/**
+	 * Create or update a contact for each valid CSV row. Existing contacts are
+	 * matched by id, then email, then name. A row that fails is reported and
+	 * the rest still go in.
+	 */
+	async importCsvContacts(results: CsvRowResult[], policy: ExistingContactPolicy): Promise<CsvImportReport> {
+		const report: CsvImportReport = { created: 0, updated: 0, skipped: 0, failed: [] };
+		const existing = await this.contactManager.getAllContacts();
+		const findExisting = (contact: Contact) => existing.find(c => contact.id && c.id === contact.id)
+			|| existing.find(c => contact.emails?.some(e => c.emails?.some(ce => ce.value.toLowerCase() === e.value.toLowerCase())))
+			|| existing.find(c => normalizeName(c.name) === normalizeName(contact.name));
+
+		for (const result of results) {
+			const imported = result.contact;
+			if (!imported) {
+				report.failed.push({ row: result.row, errors: result.errors });
+				continue;
+			}
+			try {
+				const match = findExisting(imported);
+				if (!match) {
+					const created = await this.contactManager.createContact({ ...imported, id: undefined });
+					const contact = await this.contactManager.getContactFromFile(created);
+					if (contact) existing.push(contact);
+					report.created++;
+				} else if (policy === 'skip') {
+					report.skipped++;
+				} else {
+					const modified = nowTimestamp();
+					// Overwrite only what the file had a value for
+					const columns: Partial<Contact> = {};
+					Object.entries(imported).forEach(([key, value]) => {
+						if (value !== undefined) (columns as Record<string, unknown>)[key] = value;
+					});
+					const updated: Contact = policy === 'overwrite'
+						? { ...match, ...columns, id: match.id, created: match.created, modified }
+						: { ...mergeContactFields(match, imported, {}, this.settings.defaultCountryCode), created: match.created, modified };
+					await this.contactManager.updateContact(updated);
+					report.updated++;
+				}
+			} catch (error) {
+				report.failed.push({ row: result.row, errors: [error instanceof Error ? error.message : String(error)] });
+			}
+		}
+
+		await this.refreshContactView();
+		return report;
+	}
+
+	async openCsvExport() {
+		const contacts = await this.contactManager.getAllContacts();
+		if (!contacts.length) {
+			new Notice('No contacts to export');
+			return;
+		}
+		const view = this.app.workspace.getLeavesOfType(CONTACTS_VIEW_TYPE)
+			.map(leaf => leaf.view)
+			.find((v): v is ContactView => v instanceof ContactView);
+		const filtered = view ? view.getVisibleContacts() : null;
+
+		new CsvExportModal(this.app, { all: contacts.length, filtered: filtered ? filtered.length : null }, async (scope, fields) => {
+			const selected = scope === 'filtered' && filtered ? filtered : contacts;
+			const fileName = scope === 'filtered' ? 'Contacts selection' : this.settings.contactsFolder;
+			const path = await this.writeExportFile(`${fileName}.csv`, contactsToCsv(selected, fields));
+			new Notice(`Exported ${selected.length} contacts to ${path}`);
+		}).open();
+	}
+
+	async openDuplicates() {
+		const pairs = findDuplicates(await this.contactManager.getAllContacts(), this.settings.defaultCountryCode);
+		new DuplicateContactsModal(this.app, pairs, (a, b) => {
+			new MergeContactsModal(this.app, a, b, this.settings.defaultCountryCode, async (keep, other, merged, removal) => {
+				await this.contactManager.mergeContacts(keep, other, merged, removal);
+				new Notice(`Merged ${other.name} into ${merged.name}`);
+				await this.refreshContactView();
+				// Carry on with the rest of the list
+				const remaining = findDuplicates(await this.contactManager.getAllContacts(), this.settings.defaultCountryCode);
+				if (remaining.length) this.openDuplicates();
+			}).open();
+		}).open();
+	}
+
+	async refreshContactView() {
+		const leaves = this.app.workspace.getLeavesOfType(CONTACTS_VIEW_TYPE);
+		if (!leaves.length) return;
+		// The view hides archived contacts unless asked to show them
+		const contacts = await this.contactManager.getAllContacts(true);
+		leaves.forEach(leaf => {
+			if (leaf.view instanceof ContactView) leaf.view.setContacts(contacts);
+		});
+	}
+
+	/**
+	 * Keep the contact index and open views in sync with changes made outside
+	 * the plugin: hand edits, renames, deletions and sync. Only the affected
+	 * file is re-read.
+	 */
+	private registerVaultEvents() {
+		const requestRefresh = debounce(() => {
+			this.api.trigger('changed');
+			this.refreshContactView();
+			if (this.settings.calendarAutoExport) {
+				this.exportCalendar(false).catch(error => console.error('Error exporting calendar:', error));
+			}
+		}, 300, true);
+		const handle = async (update: Promise<boolean>) => {
+			if (await update) requestRefresh();
+		};
+
+		this.registerEvent(this.app.vault.on('create', file => handle(this.contactManager.refreshFile(file))));
+		this.registerEvent(this.app.vault.on('modify', file => handle(this.contactManager.refreshFile(file))));
+		this.registerEvent(this.app.vault.on('delete', file => handle(this.contactManager.removeFile(file.path))));
+		this.registerEvent(this.app.vault.on('rename', (file, oldPath) => handle(this.contactManager.renameFile(file, oldPath))));
+
+		// Notes linking to contacts, for dated mentions counting as interactions
+		this.registerEvent(this.app.metadataCache.on('changed', file => handle(this.contactManager.refreshLinkedContacts(file))));
+		// Links may not be resolved yet when the index is first built
+		let resolvedOnce = false;
+		this.registerEvent(this.app.metadataCache.on('resolved', () => {
+			if (resolvedOnce) return;
+			resolvedOnce = true;
+			if (this.settings.mentionsAsInteractions) {
+				this.contactManager.resetIndex();
+				requestRefresh();
+			}
+		}));
 	}
 
 	onunload() {
+		this.reminderManager.stop();
 		this.app.workspace.detachLeavesOfType(CONTACTS_VIEW_TYPE);
+		this.app.workspace.detachLeavesOfType(DASHBOARD_VIEW_TYPE);
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		const loaded: Partial<ContactsPluginSettings> = await this.loadData() || {};
+		// Copy the default lists so editing the settings never changes the defaults
+		const viewState = { ...DEFAULT_VIEW_STATE, ...loaded.viewState };
+		this.settings = {
+			...DEFAULT_SETTINGS,
+			...loaded,
+			customFields: [...loaded.customFields || []],
+			tagFrequencies: [...loaded.tagFrequencies || []],
+			viewState: {
+				...viewState,
+				tags: [...viewState.tags],
+				groups: [...viewState.groups],
+				companies: [...viewState.companies],
+				frequencies: [...viewState.frequencies],
+				custom: { ...viewState.custom },
+			},
+		};
 	}
 
 	async saveSettings() {
@@ -90,44 +786,37 @@ export default class ContactsPlugin extends Plugin {
 	}
 }
 
-function calculateNextContact(lastContacted: string, frequency: string): string | undefined {
-	if (!lastContacted || !frequency) return undefined;
-	const date = new Date(lastContacted);
-	switch (frequency) {
-		case 'weekly':
-			date.setDate(date.getDate() + 7);
-			break;
-		case 'monthly':
-			date.setMonth(date.getMonth() + 1);
-			break;
-		case 'quarterly':
-			date.setMonth(date.getMonth() + 3);
-			break;
-		case 'yearly':
-			date.setFullYear(date.getFullYear() + 1);
-			break;
-		default:
-			return undefined;
-	}
-	// Format as YYYY-MM-DDTHH:mm
-	const pad = (n: number) => n.toString().padStart(2, '0');
-	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
-}
-
 export class NewContactModal extends Modal {
 	contact: Partial<Contact> = {};
 	plugin: ContactsPlugin;
 	isEdit: boolean;
-	originalName?: string;
+	private importantDatesEl: HTMLElement | null = null;
+	private relationshipsEl: HTMLElement | null = null;
 
-	constructor(app: App, plugin: ContactsPlugin, contact?: Contact) {
+	/** Without `contact` the modal creates one, starting from `draft` if given */
+	constructor(app: App, plugin: ContactsPlugin, contact?: Contact, draft: Partial<Contact> = {}) {
 		super(app);
 		this.plugin = plugin;
 		if (contact) {
-			this.contact = { ...contact };
+			// Copy the lists so edits don't leak into the indexed contact until saved
+			this.contact = {
+				...contact,
+				emails: contact.emails?.map(e => ({ ...e })),
+				phones: contact.phones?.map(p => ({ ...p })),
+				addresses: contact.addresses?.map(a => ({ ...a })),
+				urls: contact.urls?.map(u => ({ ...u })),
+				custom: { ...contact.custom },
+				important_dates: contact.important_dates?.map(d => ({ ...d })),
+				groups: contact.groups?.slice(),
+				relationships: contact.relationships?.map(r => ({ ...r })),
+			};
 			this.isEdit = true;
-			this.originalName = contact.name;
 		} else {
+			this.contact = {
+				...draft,
+				emails: draft.emails || [{ label: '', value: '' }],
+				phones: draft.phones || [{ label: '', value: '' }],
+			};
 			this.isEdit = false;
 		}
 	}
@@ -143,147 +832,487 @@ export class NewContactModal extends Modal {
 				.setValue(this.contact.name || '')
 				.onChange(value => this.contact.name = value));
 
+		this.renderLabeledList(contentEl.createDiv(), 'emails', 'Emails', 'name@example.com', isValidEmail, 'Invalid email format');
+		this.renderLabeledList(contentEl.createDiv(), 'phones', 'Phones', '+1 555 123 4567', isValidPhone, 'Invalid phone number format');
+		this.renderAddresses(contentEl.createDiv());
+		this.renderLabeledList(contentEl.createDiv(), 'urls', 'Websites & Social', 'https://…');
+
 		new Setting(contentEl)
-			.setName('Email')
+			.setName('Company')
 			.addText(text => text
-				.setValue(this.contact.email || '')
-				.onChange(value => {
-					this.contact.email = value;
-					const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-					if (value && !emailRegex.test(value)) {
-						text.inputEl.style.borderColor = 'red';
-						text.inputEl.title = 'Invalid email format';
-					} else {
-						text.inputEl.style.borderColor = '';
-						text.inputEl.title = '';
-					}
-				}));
+				.setValue(this.contact.company || '')
+				.onChange(value => this.contact.company = value));
 
 		new Setting(contentEl)
-			.setName('Phone *')
+			.setName('Title')
 			.addText(text => text
-				.setValue(this.contact.phone || '')
+				.setValue(this.contact.title || '')
+				.onChange(value => this.contact.title = value));
+
+		new Setting(contentEl)
+			.setName('Groups')
+			.setDesc('Comma-separated, e.g. household, book club')
+			.addText(text => text
+				.setValue((this.contact.groups || []).join(', '))
 				.onChange(value => {
-					this.contact.phone = value;
-					// Accept 1234567890, 123-456-7890, (123) 456-7890, 123 456 7890
-					const phoneRegex = /^(\+?\d{1,2}[\s-]?)?(\(?\d{3}\)?[\s-]?)?\d{3}[\s-]?\d{4}$/;
-					if (value && !phoneRegex.test(value)) {
-						text.inputEl.style.borderColor = 'red';
-						text.inputEl.title = 'Invalid phone number format';
-					} else {
-						text.inputEl.style.borderColor = '';
-						text.inputEl.title = '';
-					}
+					const groups = value.split(',').map(group => group.trim()).filter(group => group);
+					this.contact.groups = groups.length ? groups : undefined;
 				}));
 
 		new Setting(contentEl)
-			.setName('Company')
+			.setName('Avatar')
+			.setDesc('Image in your vault, as a path or [[link]], or an image URL')
 			.addText(text => text
-				.setValue(this.contact.company || '')
-				.onChange(value => this.contact.company = value));
+				.setValue(this.contact.avatar || '')
+				.onChange(value => this.contact.avatar = value.trim() || undefined));
 
 		new Setting(contentEl)
-			.setName('Title')
+			.setName('Birthday')
+			.setDesc('YYYY-MM-DD, or --MM-DD if you don\'t know the year')
 			.addText(text => text
-				.setValue(this.contact.title || '')
-				.onChange(value => this.contact.title = value));
+				.setPlaceholder('YYYY-MM-DD')
+				.setValue(this.contact.birthday || '')
+				.onChange(value => {
+					this.contact.birthday = value.trim() || undefined;
+					const valid = !value.trim() || parseMonthDay(value) !== null;
+					text.inputEl.style.borderColor = valid ? '' : 'red';
+					text.inputEl.title = valid ? '' : 'Invalid date format';
+				}));
+
+		this.importantDatesEl = contentEl.createDiv();
+		this.renderImportantDates();
+
+		this.relationshipsEl = contentEl.createDiv();
+		this.renderRelationships();
 
+		const presets = ['weekly', 'every 2 weeks', 'monthly', 'quarterly', 'yearly'];
+		const currentFrequency = normalizeFrequency(this.contact.contact_frequency) || this.contact.contact_frequency || '';
+		const isCustom = currentFrequency !== '' && !presets.includes(currentFrequency);
+		let customText: TextComponent | null = null;
 		new Setting(contentEl)
 			.setName('Contact Frequency')
-			.setDesc('How often to contact this person')
+			.setDesc('How often to contact this person, e.g. "every 10 days" or "every 6 weeks"')
 			.addDropdown(dropdown => {
+				dropdown.addOption('', 'Not set');
+				presets.forEach(preset => dropdown.addOption(preset, preset.charAt(0).toUpperCase() + preset.slice(1)));
 				dropdown
-					.addOption('weekly', 'Weekly')
-					.addOption('monthly', 'Monthly')
-					.addOption('quarterly', 'Quarterly')
-					.addOption('yearly', 'Yearly')
-					.setValue(this.contact.contact_frequency || '')
+					.addOption('custom', 'Custom…')
+					.setValue(isCustom ? 'custom' : currentFrequency)
 					.onChange(value => {
-						this.contact.contact_frequency = value;
-						// Optionally, recalculate next_contact if last_contacted is set
-						if (this.contact.last_contacted) {
-							this.contact.next_contact = calculateNextContact(this.contact.last_contacted, value);
+						if (value === 'custom') {
+							customText?.inputEl.show();
+							return;
 						}
+						customText?.inputEl.hide();
+						this.setFrequency(value);
 					});
+			})
+			.addText(text => {
+				customText = text;
+				text.setPlaceholder('every 10 days')
+					.setValue(isCustom ? currentFrequency : '')
+					.onChange(value => {
+						const normalized = normalizeFrequency(value);
+						text.inputEl.style.borderColor = value && !normalized ? 'red' : '';
+						text.inputEl.title = value && !normalized ? 'Use e.g. "every 10 days", "every 6 weeks" or "every 2 months"' : '';
+						if (normalized) this.setFrequency(normalized);
+					});
+				if (!isCustom) text.inputEl.hide();
 			});
 
 		new Setting(contentEl)
 			.setName('Next Contact Date')
 			.setDesc('When to contact this person next')
-			.addText(text =>
-				text.setPlaceholder('YYYY-MM-DD')
-					.setValue(this.contact.next_contact || '')
-					.onChange(value => this.contact.next_contact = value));
+			.addText(text => {
+				text.inputEl.type = 'datetime-local';
+				const next = parseDate(this.contact.next_contact);
+				text.setValue(next ? toLocalDateTime(next) : '')
+					.onChange(value => this.contact.next_contact = value ? localToTimestamp(value) : undefined);
+			});
 
-		// Mark as Contacted button
-		new Setting(contentEl)
-			.addButton(button => button
-				.setButtonText('Mark as Contacted')
-				.onClick(async () => {
-					// Use the latest provided local time as the source of truth
-					const nowLocal = '2025-04-24T09:28';
-					this.contact.last_contacted = nowLocal;
-					if (this.contact.contact_frequency) {
-						this.contact.next_contact = calculateNextContact(nowLocal, this.contact.contact_frequency);
-					}
-					// Immediately persist the change
-					const now = new Date().toISOString();
-					const fullContact: Contact = {
-						...this.contact as Contact,
-						modified: now,
-					};
-					await this.plugin.contactManager.updateContact(fullContact, this.originalName);
-					if (this.plugin.contactView) {
-						const contacts = await this.plugin.contactManager.getAllContacts();
-						this.plugin.contactView.setContacts(contacts);
-					}
-					new Notice('Marked as contacted today and saved.');
-				}));
+		this.renderCustomFields(contentEl);
+
+		// Mark as Contacted, now or back-dated
+		let contactedAt = toLocalDateTime(new Date());
+		const dateFormat = this.plugin.settings.dateFormat;
+		if (this.isEdit) {
+			new Setting(contentEl)
+				.setName('Mark as Contacted')
+				.setDesc(`Last contacted: ${formatDisplayDate(this.contact.last_contacted, dateFormat) || 'never'}`)
+				.addText(text => {
+					text.inputEl.type = 'datetime-local';
+					text.setValue(contactedAt).onChange(value => contactedAt = value);
+				})
+				.addButton(button => button
+					.setButtonText('Mark as Contacted')
+					.onClick(async () => {
+						const timestamp = localToTimestamp(contactedAt);
+						if (!timestamp) {
+							new Notice('Please enter a valid date');
+							return;
+						}
+						this.contact.last_contacted = timestamp;
+						this.contact.next_contact = this.plugin.api.nextContactFor(this.contact, timestamp) || this.contact.next_contact;
+						// Immediately persist the change
+						try {
+							await this.plugin.api.updateContact(this.contact as Contact);
+						} catch (error) {
+							console.error('Error marking contact as contacted:', error);
+							new Notice(`Could not save contact: ${error instanceof Error ? error.message : error}`);
+							return;
+						}
+						await this.plugin.refreshContactView();
+						new Notice(`Marked as contacted on ${formatDisplayDate(timestamp, dateFormat)} and saved.`);
+					}));
+		} else {
+			// A new contact has no note to save to yet; the date is kept for Create
+			new Setting(contentEl)
+				.setName('Last Contacted')
+				.setDesc('Now, or when you were last in touch')
+				.addText(text => {
+					text.inputEl.type = 'datetime-local';
+					text.setValue(contactedAt).onChange(value => {
+						const timestamp = localToTimestamp(value);
+						if (timestamp) this.contact.last_contacted = timestamp;
+					});
+				});
+		}
+
+		if (this.isEdit) {
+			const contact = this.contact as Contact;
+			new Setting(contentEl)
+				.addButton(button => button
+					.setButtonText(contact.archived ? 'Restore' : 'Archive')
+					.onClick(async () => {
+						this.close();
+						if (contact.archived) await this.plugin.restoreContacts([contact]);
+						else this.plugin.archiveContacts([contact]);
+					}))
+				.addButton(button => button
+					.setButtonText('Delete')
+					.setWarning()
+					.onClick(() => {
+						this.close();
+						this.plugin.deleteContacts([contact]);
+					}));
+		}
 
 		new Setting(contentEl)
 			.addButton(button => button
 				.setButtonText(this.isEdit ? 'Save' : 'Create')
 				.setCta()
 				.onClick(async () => {
-					if (!this.contact.name || !this.contact.phone) {
-						new Notice('Please fill in all required fields (Name and Phone)');
+					if (!this.contact.name) {
+						new Notice('Please fill in the required Name field');
+						return;
+					}
+					const nonEmpty = (items?: LabeledValue[]) => items?.filter(item => item.value.trim());
+					this.contact.emails = nonEmpty(this.contact.emails);
+					this.contact.urls = nonEmpty(this.contact.urls);
+					this.contact.phones = nonEmpty(this.contact.phones);
+					this.contact.addresses = this.contact.addresses?.filter(a => formatAddress(a));
+					if (this.contact.emails?.some(e => !isValidEmail(e.value))) {
+						new Notice('Please check the email addresses');
+						return;
+					}
+					if (this.contact.phones?.some(p => !isValidPhone(p.value))) {
+						new Notice('Please check the phone numbers');
+						return;
+					}
+					// Store numbers in E.164 when the country is known
+					this.contact.phones = this.contact.phones?.map(p => ({
+						...p,
+						value: toE164(p.value, this.plugin.settings.defaultCountryCode) || p.value.trim(),
+					}));
+					this.contact.important_dates = this.contact.important_dates?.filter(d => d.date);
+					this.contact.relationships = this.contact.relationships?.filter(r => r.contact);
+					const customErrors = this.plugin.settings.customFields
+						.map(field => validateCustomValue(field, this.contact.custom?.[field.key]))
+						.filter(error => error);
+					if (customErrors.length) {
+						new Notice(customErrors.join('\n'));
+						return;
+					}
+					if (this.contact.birthday && !parseMonthDay(this.contact.birthday)
+						|| this.contact.important_dates?.some(d => !parseMonthDay(d.date))) {
+						new Notice('Please use YYYY-MM-DD or --MM-DD for dates');
 						return;
 					}
 
-					const now = new Date().toISOString();
+					const now = nowTimestamp();
 					// Calculate next_contact if frequency and last_contacted are set
-					if (this.contact.contact_frequency && this.contact.last_contacted) {
-						this.contact.next_contact = calculateNextContact(this.contact.last_contacted, this.contact.contact_frequency);
+					if (this.contact.last_contacted) {
+						this.contact.next_contact = this.plugin.api.nextContactFor(this.contact, this.contact.last_contacted) || this.contact.next_contact;
 					}
-					if (this.isEdit) {
-						const fullContact: Contact = {
-							...this.contact as Contact,
-							modified: now,
-						};
-						await this.plugin.contactManager.updateContact(fullContact, this.originalName);
-						this.close();
-						new Notice('Contact updated successfully');
-					} else {
-						const fullContact: Contact = {
-							...this.contact as Contact,
-							created: now,
-							modified: now,
-							last_contacted: now
-						};
-						if (fullContact.contact_frequency && fullContact.last_contacted) {
-							fullContact.next_contact = calculateNextContact(fullContact.last_contacted, fullContact.contact_frequency);
+					try {
+						if (this.isEdit) {
+							await this.plugin.api.updateContact(this.contact as Contact);
+							this.close();
+							new Notice('Contact updated successfully');
+						} else {
+							const lastContacted = this.contact.last_contacted || now;
+							const fullContact: Contact = {
+								...this.contact as Contact,
+								created: now,
+								modified: now,
+								last_contacted: lastContacted
+							};
+							fullContact.next_contact = this.plugin.api.nextContactFor(fullContact, lastContacted) || fullContact.next_contact;
+							await this.plugin.api.createContact(fullContact);
+							this.close();
+							new Notice('Contact created successfully');
 						}
-						await this.plugin.contactManager.createContact(fullContact);
-						this.close();
-						new Notice('Contact created successfully');
+					} catch (error) {
+						console.error('Error saving contact:', error);
+						new Notice(`Could not save contact: ${error instanceof Error ? error.message : error}`);
+						return;
 					}
 
 					// Refresh the contact view if it's open
-					if (this.plugin.contactView) {
-						const contacts = await this.plugin.contactManager.getAllContacts();
-						this.plugin.contactView.setContacts(contacts);
-					}
+					await this.plugin.refreshContactView();
+				}));
+	}
+
+	private renderLabeledList(
+		containerEl: HTMLElement,
+		key: 'emails' | 'phones' | 'urls',
+		name: string,
+		placeholder: string,
+		validate?: (value: string) => boolean,
+		invalidMessage?: string,
+	) {
+		containerEl.empty();
+		const items = this.contact[key] || [];
+
+		new Setting(containerEl)
+			.setName(name)
+			.setDesc(items.length > 1 ? 'The first one is the primary' : '')
+			.addButton(button => button
+				.setButtonText('Add')
+				.onClick(() => {
+					this.contact[key] = [...items, { label: '', value: '' }];
+					this.renderLabeledList(containerEl, key, name, placeholder, validate, invalidMessage);
+				}));
+
+		items.forEach((item, index) => {
+			new Setting(containerEl)
+				.setClass('contacts-list-row')
+				.addText(text => text
+					.setPlaceholder('Label')
+					.setValue(item.label)
+					.onChange(value => item.label = value.trim()))
+				.addText(text => text
+					.setPlaceholder(placeholder)
+					.setValue(item.value)
+					.onChange(value => {
+						item.value = value;
+						const invalid = validate && value.trim() && !validate(value);
+						text.inputEl.style.borderColor = invalid ? 'red' : '';
+						text.inputEl.title = invalid ? invalidMessage || '' : '';
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Remove')
+					.onClick(() => {
+						this.contact[key] = items.filter((_, i) => i !== index);
+						this.renderLabeledList(containerEl, key, name, placeholder, validate, invalidMessage);
+					}));
+		});
+	}
+
+	private renderAddresses(containerEl: HTMLElement) {
+		containerEl.empty();
+		const addresses = this.contact.addresses || [];
+
+		new Setting(containerEl)
+			.setName('Addresses')
+			.addButton(button => button
+				.setButtonText('Add')
+				.onClick(() => {
+					this.contact.addresses = [...addresses, { label: '' }];
+					this.renderAddresses(containerEl);
+				}));
+
+		const parts: [keyof PostalAddress, string][] = [
+			['label', 'Label'], ['street', 'Street'], ['city', 'City'],
+			['region', 'Region'], ['postal_code', 'Postal code'], ['country', 'Country'],
+		];
+		addresses.forEach((address, index) => {
+			const setting = new Setting(containerEl).setClass('contacts-address-row');
+			parts.forEach(([part, placeholder]) => {
+				setting.addText(text => text
+					.setPlaceholder(placeholder)
+					.setValue(address[part] || '')
+					.onChange(value => {
+						if (part === 'label') address.label = value.trim();
+						else address[part] = value.trim() || undefined;
+					}));
+			});
+			setting.addExtraButton(button => button
+				.setIcon('trash')
+				.setTooltip('Remove')
+				.onClick(() => {
+					this.contact.addresses = addresses.filter((_, i) => i !== index);
+					this.renderAddresses(containerEl);
+				}));
+		});
+	}
+
+	private renderImportantDates() {
+		const containerEl = this.importantDatesEl;
+		if (!containerEl) return;
+		containerEl.empty();
+		const dates = this.contact.important_dates || [];
+
+		new Setting(containerEl)
+			.setName('Important Dates')
+			.setDesc('Anniversaries and other dates that repeat every year')
+			.addButton(button => button
+				.setButtonText('Add Date')
+				.onClick(() => {
+					this.contact.important_dates = [...dates, { label: '', date: '' }];
+					this.renderImportantDates();
+				}));
+
+		dates.forEach((entry, index) => {
+			new Setting(containerEl)
+				.setClass('contacts-important-date')
+				.addText(text => text
+					.setPlaceholder('Anniversary')
+					.setValue(entry.label)
+					.onChange(value => entry.label = value))
+				.addText(text => text
+					.setPlaceholder('YYYY-MM-DD')
+					.setValue(entry.date)
+					.onChange(value => {
+						entry.date = value.trim();
+						text.inputEl.style.borderColor = !value.trim() || parseMonthDay(value) ? '' : 'red';
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Remove')
+					.onClick(() => {
+						this.contact.important_dates = dates.filter((_, i) => i !== index);
+						this.renderImportantDates();
+					}));
+		});
+	}
+
+	// Inputs for the custom fields defined in the settings, by type
+	private renderCustomFields(containerEl: HTMLElement) {
+		const custom = this.contact.custom = this.contact.custom || {};
+		const set = (key: string, value: CustomFieldValue | undefined) => custom[key] = value as CustomFieldValue;
+
+		this.plugin.settings.customFields.forEach(field => {
+			const setting = new Setting(containerEl).setName(field.required ? `${field.label} *` : field.label);
+			const value = custom[field.key];
+			switch (field.type) {
+				case 'boolean':
+					setting.addToggle(toggle => toggle
+						.setValue(value === true)
+						.onChange(checked => set(field.key, checked)));
+					break;
+				case 'select':
+					setting.addDropdown(dropdown => {
+						dropdown.addOption('', '');
+						(field.options || []).forEach(option => dropdown.addOption(option, option));
+						if (typeof value === 'string' && value && !field.options?.includes(value)) dropdown.addOption(value, value);
+						dropdown
+							.setValue(typeof value === 'string' ? value : '')
+							.onChange(selected => set(field.key, selected || undefined));
+					});
+					break;
+				case 'list':
+					setting
+						.setDesc('Comma-separated')
+						.addText(text => text
+							.setValue(Array.isArray(value) ? value.join(', ') : '')
+							.onChange(input => {
+								const items = input.split(',').map(item => item.trim()).filter(item => item);
+								set(field.key, items.length ? items : undefined);
+							}));
+					break;
+				default:
+					setting.addText(text => {
+						if (field.type === 'number') text.inputEl.type = 'number';
+						if (field.type === 'date') text.inputEl.type = 'date';
+						if (field.type === 'link') text.setPlaceholder('[[Note]]');
+						text.setValue(value === undefined ? '' : String(value))
+							.onChange(input => {
+								const trimmed = input.trim();
+								if (!trimmed) set(field.key, undefined);
+								else if (field.type === 'number') set(field.key, Number(trimmed));
+								// A bare note name becomes a link
+								else if (field.type === 'link' && !trimmed.startsWith('[[')) set(field.key, `[[${trimmed}]]`);
+								else set(field.key, trimmed);
+								const error = validateCustomValue(field, custom[field.key]);
+								text.inputEl.style.borderColor = error ? 'red' : '';
+								text.inputEl.title = error || '';
+							});
+					});
+			}
+		});
+	}
+
+	private async renderRelationships() {
+		const containerEl = this.relationshipsEl;
+		if (!containerEl) return;
+		const contacts = (await this.plugin.contactManager.getAllContacts())
+			.filter(other => !other.id || other.id !== this.contact.id)
+			.sort((a, b) => a.name.localeCompare(b.name));
+		containerEl.empty();
+		const relationships = this.contact.relationships || [];
+		const sourcePath = this.contact.path || '';
+
+		new Setting(containerEl)
+			.setName('Relationships')
+			.setDesc('Links to other contacts, stored as wikilinks so they show in the graph')
+			.addButton(button => button
+				.setButtonText('Add Relationship')
+				.onClick(() => {
+					this.contact.relationships = [...relationships, { type: 'friend', contact: '' }];
+					this.renderRelationships();
 				}));
+
+		relationships.forEach((relationship, index) => {
+			const linked = findLinkedContact(relationship.contact, sourcePath, contacts, this.app.metadataCache);
+			new Setting(containerEl)
+				.setClass('contacts-list-row')
+				.addDropdown(dropdown => {
+					Object.keys(RELATIONSHIP_TYPES).forEach(type => dropdown.addOption(type, type));
+					if (relationship.type && !(relationship.type in RELATIONSHIP_TYPES)) {
+						dropdown.addOption(relationship.type, relationship.type);
+					}
+					dropdown.setValue(relationship.type).onChange(value => relationship.type = value);
+				})
+				.addDropdown(dropdown => {
+					dropdown.addOption('', 'Choose a contact…');
+					contacts.forEach(other => {
+						// Keep the link as written for the person already chosen
+						const link = other === linked ? relationship.contact : this.plugin.contactManager.linkToContact(other, sourcePath);
+						if (link) dropdown.addOption(link, other.name);
+					});
+					if (relationship.contact && !linked) {
+						dropdown.addOption(relationship.contact, `${relationship.contact} (not found)`);
+					}
+					dropdown.setValue(relationship.contact).onChange(value => relationship.contact = value);
+				})
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Remove')
+					.onClick(() => {
+						this.contact.relationships = relationships.filter((_, i) => i !== index);
+						this.renderRelationships();
+					}));
+		});
+	}
+
+	private setFrequency(value: string) {
+		this.contact.contact_frequency = value || undefined;
+		// Optionally, recalculate next_contact if last_contacted is set
+		if (this.contact.last_contacted) {
+			this.contact.next_contact = this.plugin.api.nextContactFor(this.contact, this.contact.last_contacted);
+		}
 	}
 
 	onClose() {
@@ -294,6 +1323,10 @@ export class NewContactModal extends Modal {
 
 class ContactsSettingTab extends PluginSettingTab {
 	plugin: ContactsPlugin;
+	// Set when custom fields or the contacts folder change, so contacts are
+	// re-read once the tab closes rather than on every keystroke
+	private customFieldsChanged = false;
+	private contactsFolderChanged = false;
 
 	constructor(app: App, plugin: ContactsPlugin) {
 		super(app, plugin);
@@ -313,10 +1346,55 @@ class ContactsSettingTab extends PluginSettingTab {
 				.setPlaceholder('Contacts')
 				.setValue(this.plugin.settings.contactsFolder)
 				.onChange(async (value) => {
-					this.plugin.settings.contactsFolder = value;
+					this.plugin.settings.contactsFolder = normalizePath(value);
+					await this.plugin.saveSettings();
+					this.contactsFolderChanged = true;
+				}));
+
+		new Setting(containerEl)
+			.setName('File Name Template')
+			.setDesc('File name for new contacts. Use {{name}}, {{company}}, {{id}} or any other field; add "/" for subfolders.')
+			.addText(text => text
+				.setPlaceholder('{{name}}')
+				.setValue(this.plugin.settings.fileNameTemplate)
+				.onChange(async (value) => {
+					this.plugin.settings.fileNameTemplate = value.trim() || DEFAULT_SETTINGS.fileNameTemplate;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Contact Template')
+			.setDesc('Note that new contacts start from. {{name}}, {{email}}, {{phone}}, {{company}} and any other field or custom field key are filled in; Templater tags are left for Templater. Its frontmatter sets defaults. Empty writes just the name as a heading.')
+			.addText(text => text
+				.setPlaceholder('Templates/Contact.md')
+				.setValue(this.plugin.settings.contactTemplate)
+				.onChange(async (value) => {
+					this.plugin.settings.contactTemplate = value.trim() ? normalizePath(value.trim()) : '';
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Archive Folder')
+			.setDesc('Subfolder of the contacts folder for archived contacts. They are left out of reminders and only listed in the view with "Show archived" on.')
+			.addText(text => text
+				.setPlaceholder('Archive')
+				.setValue(this.plugin.settings.archiveFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.archiveFolder = normalizePath(value.trim() || 'Archive');
+					await this.plugin.saveSettings();
+					this.plugin.contactManager.resetIndex();
+					await this.plugin.refreshContactView();
+				}));
+
+		new Setting(containerEl)
+			.setName('Default Country Code')
+			.setDesc('Calling code for phone numbers entered without one, e.g. +1 or +44. Numbers are saved in international format when the country is known.')
+			.addText(text => text
+				.setPlaceholder('+1')
+				.setValue(this.plugin.settings.defaultCountryCode)
+				.onChange(async (value) => {
+					this.plugin.settings.defaultCountryCode = value.trim();
 					await this.plugin.saveSettings();
-					// Update contact manager with new folder
-					this.plugin.contactManager = new ContactManager(this.app.vault, value);
 				}));
 
 		new Setting(containerEl)
@@ -339,6 +1417,311 @@ class ContactsSettingTab extends PluginSettingTab {
 				.onChange(async (value: 'table' | 'grid') => {
 					this.plugin.settings.defaultView = value;
 					await this.plugin.saveSettings();
+					this.app.workspace.getLeavesOfType(CONTACTS_VIEW_TYPE).forEach(leaf => {
+						if (leaf.view instanceof ContactView) leaf.view.setLayout(value);
+					});
 				}));
+
+		const sample = createEl('b');
+		new Setting(containerEl)
+			.setName('Date Format')
+			.setDesc(createFragment(frag => {
+				frag.appendText('How dates are shown, as a ');
+				frag.createEl('a', { text: 'Moment.js format', href: 'https://momentjs.com/docs/#/displaying/format/' });
+				frag.appendText('. Leave empty to follow your locale. Preview: ');
+				frag.append(sample);
+			}))
+			.addMomentFormat(format => format
+				.setDefaultFormat('ll')
+				.setPlaceholder('Locale default')
+				.setValue(this.plugin.settings.dateFormat)
+				.setSampleEl(sample)
+				.onChange(async (value) => {
+					this.plugin.settings.dateFormat = value;
+					await this.plugin.saveSettings();
+					await this.plugin.refreshContactView();
+				}));
+
+		new Setting(containerEl)
+			.setName('Upcoming Birthdays Window')
+			.setDesc('How many days ahead the upcoming birthdays list looks')
+			.addText(text => text
+				.setPlaceholder('30')
+				.setValue(String(this.plugin.settings.upcomingDatesDays))
+				.onChange(async (value) => {
+					const days = parseInt(value, 10);
+					if (isNaN(days) || days < 0) return;
+					this.plugin.settings.upcomingDatesDays = days;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Mention Trigger')
+			.setDesc('Typing this before a name in a note suggests contacts and inserts a link. Leave empty to turn it off.')
+			.addText(text => text
+				.setPlaceholder('@')
+				.setValue(this.plugin.settings.mentionTrigger)
+				.onChange(async (value) => {
+					this.plugin.settings.mentionTrigger = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Count Mentions as Contact')
+			.setDesc('A daily note (or a note with a date property) linking to a contact counts as being in touch that day')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.mentionsAsInteractions)
+				.onChange(async (value) => {
+					this.plugin.settings.mentionsAsInteractions = value;
+					await this.plugin.saveSettings();
+					this.plugin.contactManager.resetIndex();
+					await this.plugin.refreshContactView();
+				}));
+
+		new Setting(containerEl)
+			.setName('Reverse Relationships')
+			.setDesc('When you link two contacts, add the matching link on the other one too, e.g. parent and child')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.reverseRelationships)
+				.onChange(async (value) => {
+					this.plugin.settings.reverseRelationships = value;
+					await this.plugin.saveSettings();
+				}));
+
+		containerEl.createEl('h3', { text: 'Tag Frequencies' });
+		containerEl.createEl('p', {
+			text: 'Default contact frequency for contacts that have a tag but no frequency of their own. The first matching tag wins.',
+			cls: 'setting-item-description',
+		});
+
+		this.plugin.settings.tagFrequencies.forEach((entry, index) => {
+			new Setting(containerEl)
+				.addText(text => text
+					.setPlaceholder('family')
+					.setValue(entry.tag)
+					.onChange(async (value) => {
+						entry.tag = value.trim();
+						await this.plugin.saveSettings();
+					}))
+				.addText(text => text
+					.setPlaceholder('every 2 weeks')
+					.setValue(entry.frequency)
+					.onChange(async (value) => {
+						const normalized = normalizeFrequency(value);
+						text.inputEl.style.borderColor = value && !normalized ? 'red' : '';
+						if (!normalized) return;
+						entry.frequency = normalized;
+						await this.plugin.saveSettings();
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Remove')
+					.onClick(async () => {
+						this.plugin.settings.tagFrequencies.splice(index, 1);
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+		});
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('Add Tag Frequency')
+				.onClick(async () => {
+					this.plugin.settings.tagFrequencies.push({ tag: '', frequency: 'monthly' });
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		this.renderCustomFields(containerEl);
+
+		containerEl.createEl('h3', { text: 'Reminders' });
+
+		new Setting(containerEl)
+			.setName('Reminder Notices')
+			.setDesc('Show a notice when contacts become overdue or due soon')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.reminderNotices)
+				.onChange(async (value) => {
+					this.plugin.settings.reminderNotices = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Lead Time')
+			.setDesc('Remind about contacts due within this many days')
+			.addText(text => text
+				.setPlaceholder('3')
+				.setValue(String(this.plugin.settings.reminderLeadDays))
+				.onChange(async (value) => {
+					const days = parseInt(value, 10);
+					if (isNaN(days) || days < 0) return;
+					this.plugin.settings.reminderLeadDays = days;
+					await this.plugin.saveSettings();
+					this.plugin.reminderManager.check();
+				}));
+
+		new Setting(containerEl)
+			.setName('Check Interval')
+			.setDesc('How often to check for due contacts, in minutes')
+			.addText(text => text
+				.setPlaceholder('60')
+				.setValue(String(this.plugin.settings.reminderIntervalMinutes))
+				.onChange(async (value) => {
+					const minutes = parseInt(value, 10);
+					if (isNaN(minutes) || minutes < 1) return;
+					this.plugin.settings.reminderIntervalMinutes = minutes;
+					await this.plugin.saveSettings();
+					this.plugin.reminderManager.start();
+				}));
+
+		new Setting(containerEl)
+			.setName('Quiet Hours')
+			.setDesc('No reminder notices between these times (HH:mm). Leave empty to disable.')
+			.addText(text => text
+				.setPlaceholder('22:00')
+				.setValue(this.plugin.settings.quietHoursStart)
+				.onChange(async (value) => {
+					this.plugin.settings.quietHoursStart = value.trim();
+					await this.plugin.saveSettings();
+				}))
+			.addText(text => text
+				.setPlaceholder('08:00')
+				.setValue(this.plugin.settings.quietHoursEnd)
+				.onChange(async (value) => {
+					this.plugin.settings.quietHoursEnd = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		containerEl.createEl('h3', { text: 'Calendar' });
+
+		new Setting(containerEl)
+			.setName('Calendar File')
+			.setDesc('Where "Export calendar" writes next contact dates, birthdays and important dates as an .ics file. Calendar apps can subscribe to it through a sync service.')
+			.addText(text => text
+				.setPlaceholder('Contacts.ics')
+				.setValue(this.plugin.settings.calendarFile)
+				.onChange(async (value) => {
+					this.plugin.settings.calendarFile = value.trim() ? normalizePath(value.trim()) : DEFAULT_SETTINGS.calendarFile;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Keep Calendar Updated')
+			.setDesc('Write the calendar file again whenever a contact changes')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.calendarAutoExport)
+				.onChange(async (value) => {
+					this.plugin.settings.calendarAutoExport = value;
+					await this.plugin.saveSettings();
+					if (value) await this.plugin.exportCalendar(false);
+				}));
+	}
+
+	private renderCustomFields(containerEl: HTMLElement) {
+		containerEl.createEl('h3', { text: 'Custom Fields' });
+		containerEl.createEl('p', {
+			text: 'Extra fields for every contact, stored in frontmatter under their key. Select fields take a comma-separated list of options.',
+			cls: 'setting-item-description',
+		});
+
+		const fields = this.plugin.settings.customFields;
+		const save = async () => {
+			this.customFieldsChanged = true;
+			await this.plugin.saveSettings();
+		};
+
+		fields.forEach((field, index) => {
+			const setting = new Setting(containerEl)
+				.setClass('contacts-custom-field')
+				.addText(text => text
+					.setPlaceholder('key')
+					.setValue(field.key)
+					.onChange(async (value) => {
+						const error = validateFieldKey(value.trim(), fields, field);
+						text.inputEl.style.borderColor = error ? 'red' : '';
+						text.inputEl.title = error || '';
+						if (error) return;
+						field.key = value.trim();
+						await save();
+					}))
+				.addText(text => text
+					.setPlaceholder('Label')
+					.setValue(field.label)
+					.onChange(async (value) => {
+						field.label = value.trim() || field.key;
+						await save();
+					}))
+				.addDropdown(dropdown => {
+					CUSTOM_FIELD_TYPES.forEach(type => dropdown.addOption(type, type));
+					dropdown
+						.setValue(field.type)
+						.onChange(async (value) => {
+							field.type = value as CustomFieldType;
+							await save();
+							this.display();
+						});
+				});
+
+			if (field.type === 'select') {
+				setting.addText(text => text
+					.setPlaceholder('Options')
+					.setValue((field.options || []).join(', '))
+					.onChange(async (value) => {
+						field.options = value.split(',').map(option => option.trim()).filter(option => option);
+						await save();
+					}));
+			}
+
+			const flags: ['required' | 'showInTable' | 'showInFilters', string][] = [
+				['required', 'Required'],
+				['showInTable', 'Show as a column'],
+				['showInFilters', 'Show in filters'],
+			];
+			flags.forEach(([flag, tooltip]) => {
+				setting.addToggle(toggle => toggle
+					.setTooltip(tooltip)
+					.setValue(!!field[flag])
+					.onChange(async (value) => {
+						field[flag] = value || undefined;
+						await save();
+					}));
+			});
+
+			setting.addExtraButton(button => button
+				.setIcon('trash')
+				.setTooltip('Remove')
+				.onClick(async () => {
+					fields.splice(index, 1);
+					await save();
+					this.display();
+				}));
+		});
+
+		new Setting(containerEl)
+			.setDesc('Toggles: required, show as a table column, show in the view\'s filters')
+			.addButton(button => button
+				.setButtonText('Add Custom Field')
+				.onClick(async () => {
+					let n = fields.length + 1;
+					while (validateFieldKey(`field${n}`, fields)) n++;
+					fields.push({ key: `field${n}`, label: `Field ${n}`, type: 'text' });
+					await save();
+					this.display();
+				}));
+	}
+
+	async hide() {
+		if (this.contactsFolderChanged) {
+			this.contactsFolderChanged = false;
+			this.customFieldsChanged = false;
+			await this.plugin.contactManager.contactsFolderChanged();
+		} else if (this.customFieldsChanged) {
+			this.customFieldsChanged = false;
+			this.plugin.contactManager.resetIndex();
+		} else {
+			return;
+		}
+		this.plugin.api.trigger('changed');
+		await this.plugin.refreshContactView();
 	}
 }
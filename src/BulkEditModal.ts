@@ -0,0 +1,135 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { normalizeFrequency } from './frequency';
+import { parseDate, toLocalDateTime, toTimestamp } from './dates';
+
+/** A change made to every selected contact at once; an empty frequency clears it */
+export type BulkEdit =
+    | { action: 'add-tags'; tags: string[] }
+    | { action: 'remove-tags'; tags: string[] }
+    | { action: 'frequency'; frequency: string }
+    | { action: 'mark-contacted'; date: Date }
+    | { action: 'reschedule'; nextContact: string };
+
+type BulkAction = BulkEdit['action'];
+
+const ACTIONS: { value: BulkAction; label: string }[] = [
+    { value: 'add-tags', label: 'Add tags' },
+    { value: 'remove-tags', label: 'Remove tags' },
+    { value: 'frequency', label: 'Set contact frequency' },
+    { value: 'mark-contacted', label: 'Mark as contacted' },
+    { value: 'reschedule', label: 'Reschedule next contact' },
+];
+
+function parseTags(value: string): string[] {
+    return value.split(',').map(tag => tag.trim().replace(/^#/, '')).filter(tag => tag);
+}
+
+export class BulkEditModal extends Modal {
+    private action: BulkAction = 'add-tags';
+    private value = '';
+
+    constructor(app: App, private count: number, private onSubmit: (edit: BulkEdit) => Promise<void>) {
+        super(app);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: `Edit ${this.count} contacts` });
+
+        new Setting(contentEl)
+            .setName('Action')
+            .addDropdown(dropdown => {
+                ACTIONS.forEach(action => dropdown.addOption(action.value, action.label));
+                dropdown.setValue(this.action).onChange(value => {
+                    this.action = value as BulkAction;
+                    // Dates default to now; the other actions start empty
+                    this.value = this.action === 'mark-contacted' || this.action === 'reschedule' ? toLocalDateTime(new Date()) : '';
+                    this.renderValue(valueEl);
+                });
+            });
+
+        const valueEl = contentEl.createDiv();
+        this.renderValue(valueEl);
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText(`Apply to ${this.count} contacts`)
+                .setCta()
+                .onClick(async () => {
+                    const edit = this.getEdit();
+                    if (!edit) return;
+                    this.close();
+                    await this.onSubmit(edit);
+                }));
+    }
+
+    private renderValue(containerEl: HTMLElement) {
+        containerEl.empty();
+        const setting = new Setting(containerEl);
+        switch (this.action) {
+            case 'add-tags':
+            case 'remove-tags':
+                setting.setName('Tags').setDesc('Separate tags with commas');
+                setting.addText(text => text
+                    .setPlaceholder('family, friends')
+                    .setValue(this.value)
+                    .onChange(value => this.value = value));
+                break;
+            case 'frequency':
+                setting.setName('Contact frequency').setDesc('e.g. weekly, monthly, every 6 weeks. Leave empty to clear it.');
+                setting.addText(text => text
+                    .setPlaceholder('monthly')
+                    .setValue(this.value)
+                    .onChange(value => this.value = value));
+                break;
+            case 'mark-contacted':
+            case 'reschedule':
+                setting.setName(this.action === 'mark-contacted' ? 'Contacted on' : 'Next contact');
+                setting.addText(text => {
+                    text.inputEl.type = 'datetime-local';
+                    text.setValue(this.value).onChange(value => this.value = value);
+                });
+                break;
+        }
+    }
+
+    // The edit to make, or null after telling the user what's missing
+    private getEdit(): BulkEdit | null {
+        switch (this.action) {
+            case 'add-tags':
+            case 'remove-tags': {
+                const tags = parseTags(this.value);
+                if (!tags.length) {
+                    new Notice('Please enter at least one tag');
+                    return null;
+                }
+                return { action: this.action, tags };
+            }
+            case 'frequency': {
+                const frequency = this.value.trim() ? normalizeFrequency(this.value) : '';
+                if (frequency === undefined) {
+                    new Notice('Invalid frequency. Try "weekly", "every 10 days" or "6w".');
+                    return null;
+                }
+                return { action: 'frequency', frequency };
+            }
+            case 'mark-contacted':
+            case 'reschedule': {
+                const date = parseDate(this.value);
+                if (!date) {
+                    new Notice('Please enter a valid date');
+                    return null;
+                }
+                return this.action === 'mark-contacted'
+                    ? { action: 'mark-contacted', date }
+                    : { action: 'reschedule', nextContact: toTimestamp(date) };
+            }
+        }
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
@@ -0,0 +1,43 @@
+import { App, Modal, Setting } from 'obsidian';
+
+/**
+ * Ask before doing something to contacts; `onConfirm` runs only when the
+ * user clicks the confirm button.
+ */
+export class ConfirmModal extends Modal {
+    constructor(
+        app: App,
+        private title: string,
+        private message: string,
+        private confirmText: string,
+        private onConfirm: () => Promise<void>,
+        private destructive = false,
+    ) {
+        super(app);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: this.title });
+        contentEl.createEl('p', { text: this.message });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Cancel')
+                .onClick(() => this.close()))
+            .addButton(button => {
+                button.setButtonText(this.confirmText).onClick(async () => {
+                    this.close();
+                    await this.onConfirm();
+                });
+                if (this.destructive) button.setWarning();
+                else button.setCta();
+            });
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
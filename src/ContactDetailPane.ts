@@ -0,0 +1,328 @@
+import { App, Component, MarkdownRenderer, Notice, setIcon } from 'obsidian';
+import { Contact, CustomFieldDefinition } from './types';
+import { getDueStatus } from './contactFilters';
+import { formatAddress, phoneHref } from './contactDetails';
+import { getRelatedContacts } from './relationships';
+import { findMentions, Mention } from './mentions';
+import { formatCustomValue } from './customFields';
+import { removeInteractions } from './interactions';
+import { describeUpcomingDate, getUpcomingDates } from './birthdays';
+import { DUE_STATUS_LABELS, formatBirthday, renderAvatar } from './contactDisplay';
+import { formatDisplayDate } from './dates';
+
+const MAX_MENTIONS = 20;
+
+interface MentionSearch {
+    mentions: Mention[];
+    /** From vaultSignature when searched; any note change after that makes it stale */
+    signature: string;
+}
+
+// Changes when a note is created, deleted or edited
+function vaultSignature(app: App): string {
+    const files = app.vault.getMarkdownFiles();
+    return `${files.length}:${files.reduce((latest, file) => Math.max(latest, file.stat.mtime), 0)}`;
+}
+
+/** What the pane's buttons do; the plugin provides these */
+export interface ContactActions {
+    create(): void;
+    openFile(contact: Contact): void;
+    edit(contact: Contact): void;
+    markContacted(contact: Contact): Promise<void>;
+    logInteraction(contact: Contact): void;
+    /** Archive and delete ask for confirmation first */
+    archive(contacts: Contact[]): void;
+    restore(contacts: Contact[]): Promise<void>;
+    delete(contacts: Contact[]): void;
+    /** Tags, frequency and dates of several contacts at once, with undo */
+    bulkEdit(contacts: Contact[]): void;
+    export(contacts: Contact[], format: 'vcard' | 'csv'): void;
+    openDashboard(): void;
+}
+
+/** Navigation within the view, provided by ContactView */
+export interface ContactPaneNavigation {
+    select(contact: Contact): void;
+    filterGroup(group: string): void;
+    /** Move focus back to the list, e.g. on Escape */
+    focusList(): void;
+}
+
+interface DetailRow {
+    label: string;
+    value: string;
+    href?: string;
+    copy?: boolean;
+}
+
+/**
+ * Read-only details of the selected contact, shown next to the list: every
+ * field, the note body, dates, interactions and mentions, plus quick actions.
+ */
+export class ContactDetailPane {
+    private contact: Contact | null = null;
+    // Owns the rendered markdown, so its child components are cleaned up on re-render
+    private markdown: Component | null = null;
+    // Searches for unlinked mentions read every note, so they only run when asked and are kept by contact path
+    private unlinkedMentions = new Map<string, MentionSearch>();
+
+    constructor(
+        private app: App,
+        private containerEl: HTMLElement,
+        private parent: Component,
+        private actions: ContactActions,
+        private navigation: ContactPaneNavigation,
+        private getCustomFields: () => CustomFieldDefinition[],
+        private getDateFormat: () => string,
+    ) {
+        this.containerEl.addClass('contacts-detail-pane');
+        this.containerEl.tabIndex = -1;
+        this.containerEl.addEventListener('keydown', event => {
+            if (event.key === 'Escape') {
+                event.preventDefault();
+                this.navigation.focusList();
+            }
+        });
+    }
+
+    /** Move keyboard focus to the pane's first action */
+    focus() {
+        const first = this.containerEl.querySelector<HTMLElement>('.contacts-detail-actions button');
+        (first || this.containerEl).focus();
+    }
+
+    show(contact: Contact | null, contacts: Contact[]) {
+        this.contact = contact;
+        this.containerEl.empty();
+        if (this.markdown) {
+            this.parent.removeChild(this.markdown);
+            this.markdown = null;
+        }
+        if (!contact) {
+            this.containerEl.hide();
+            return;
+        }
+        this.containerEl.show();
+
+        this.renderHeader(contact);
+        this.renderActions(contact);
+        this.renderTags(contact);
+        this.renderDetails(contact);
+        this.renderRelated(contact, contacts);
+        this.renderDates(contact);
+        this.renderInteractions(contact);
+        this.renderBody(contact);
+        this.showMentions(this.section('Mentions').createDiv(), contact, contacts);
+    }
+
+    private section(title: string): HTMLElement {
+        const sectionEl = this.containerEl.createDiv({ cls: 'contacts-detail-section' });
+        sectionEl.createEl('h6', { text: title });
+        return sectionEl;
+    }
+
+    private renderHeader(contact: Contact) {
+        const header = this.containerEl.createDiv({ cls: 'contacts-detail-header' });
+        renderAvatar(this.app, header, contact);
+        const info = header.createDiv();
+        info.createEl('h4', { text: contact.name });
+        const role = [contact.title, contact.company].filter(v => v).join(' · ');
+        if (role) info.createDiv({ text: role, cls: 'contacts-card-role' });
+        if (contact.archived) {
+            info.createSpan({ text: 'Archived', cls: 'contacts-due-badge is-archived' });
+        } else {
+            const status = getDueStatus(contact);
+            info.createSpan({ text: DUE_STATUS_LABELS[status], cls: `contacts-due-badge is-${status}` });
+        }
+    }
+
+    private renderActions(contact: Contact) {
+        const actionsEl = this.containerEl.createDiv({ cls: 'contacts-detail-actions' });
+        const button = (icon: string, label: string, onClick: () => void | Promise<void>) => {
+            const el = actionsEl.createEl('button', { cls: 'clickable-icon' });
+            setIcon(el, icon);
+            el.setAttr('aria-label', label);
+            el.onclick = () => onClick();
+        };
+        button('file-text', 'Open note', () => this.actions.openFile(contact));
+        button('pencil', 'Edit', () => this.actions.edit(contact));
+        button('check-circle', 'Mark as contacted', () => this.actions.markContacted(contact));
+        button('message-square-plus', 'Log interaction', () => this.actions.logInteraction(contact));
+        if (contact.archived) button('archive-restore', 'Restore', () => this.actions.restore([contact]));
+        else button('archive', 'Archive', () => this.actions.archive([contact]));
+        button('trash-2', 'Delete', () => this.actions.delete([contact]));
+    }
+
+    private renderTags(contact: Contact) {
+        if (!contact.tags?.length && !contact.groups?.length) return;
+        const tagsEl = this.containerEl.createDiv({ cls: 'contacts-card-tags' });
+        contact.tags?.forEach(tag => tagsEl.createSpan({ text: `#${tag}`, cls: 'contacts-card-tag' }));
+        contact.groups?.forEach(group => {
+            const chip = tagsEl.createEl('button', { text: group, cls: 'contacts-chip' });
+            chip.setAttr('aria-label', `Show everyone in ${group}`);
+            chip.onclick = () => this.navigation.filterGroup(group);
+        });
+    }
+
+    private renderDetails(contact: Contact) {
+        const rows: DetailRow[] = [];
+        contact.emails?.forEach(e => rows.push({ label: e.label || 'Email', value: e.value, href: `mailto:${e.value}`, copy: true }));
+        contact.phones?.forEach(p => rows.push({ label: p.label || 'Phone', value: p.value, href: phoneHref(p.value), copy: true }));
+        contact.addresses?.forEach(a => rows.push({ label: a.label || 'Address', value: formatAddress(a), copy: true }));
+        contact.urls?.forEach(u => rows.push({
+            label: u.label || 'Link',
+            value: u.value,
+            href: /^https?:\/\//.test(u.value) ? u.value : undefined,
+            copy: true,
+        }));
+        if (contact.birthday) rows.push({ label: 'Birthday', value: formatBirthday(contact.birthday) || contact.birthday });
+        if (contact.contact_frequency) rows.push({ label: 'Frequency', value: contact.contact_frequency });
+        const dateFormat = this.getDateFormat();
+        rows.push({ label: 'Last contacted', value: formatDisplayDate(contact.last_contacted, dateFormat) || 'Never' });
+        rows.push({ label: 'Next contact', value: formatDisplayDate(contact.next_contact, dateFormat) || 'Not scheduled' });
+        this.getCustomFields().forEach(field => {
+            const value = contact.custom?.[field.key];
+            if (value !== undefined) rows.push({ label: field.label, value: formatCustomValue(value) });
+        });
+        if (contact.notes) rows.push({ label: 'Notes', value: contact.notes });
+
+        const list = this.containerEl.createEl('dl', { cls: 'contacts-details' });
+        rows.forEach(({ label, value, href, copy }) => {
+            list.createEl('dt', { text: label });
+            const dd = list.createEl('dd');
+            if (href) dd.createEl('a', { text: value, href });
+            else dd.createSpan({ text: value });
+            if (copy) {
+                const copyBtn = dd.createEl('button', { cls: 'clickable-icon contacts-copy' });
+                setIcon(copyBtn, 'copy');
+                copyBtn.setAttr('aria-label', 'Copy');
+                copyBtn.onclick = async () => {
+                    try {
+                        await navigator.clipboard.writeText(value);
+                        new Notice(`Copied ${value}`);
+                    } catch (error) {
+                        console.error('Error copying to the clipboard:', error);
+                        new Notice(`Could not copy ${value}`);
+                    }
+                };
+            }
+        });
+    }
+
+    // Related people; clicking one moves the selection to them
+    private renderRelated(contact: Contact, contacts: Contact[]) {
+        const related = getRelatedContacts(contact, contacts, this.app.metadataCache);
+        if (!related.length) return;
+
+        const relatedEl = this.section('Related').createDiv({ cls: 'contacts-related' });
+        related.forEach(({ type, contact: other }) => {
+            const item = relatedEl.createSpan({ cls: 'contacts-related-item' });
+            if (type) item.createSpan({ text: `${type}: `, cls: 'contacts-related-type' });
+            const link = item.createEl('a', { text: other.name, cls: 'internal-link' });
+            link.onclick = (event) => {
+                event.preventDefault();
+                // Cmd/Ctrl-click opens the note instead
+                if (event.metaKey || event.ctrlKey) this.actions.openFile(other);
+                else this.navigation.select(other);
+            };
+        });
+    }
+
+    private renderDates(contact: Contact) {
+        // A year covers every yearly date
+        const dates = getUpcomingDates([contact], 366);
+        if (!dates.length) return;
+        const datesList = this.section('Upcoming dates').createEl('ul', { cls: 'contacts-timeline-dates' });
+        dates.forEach(upcoming => datesList.createEl('li', { text: describeUpcomingDate(upcoming) }));
+    }
+
+    private renderInteractions(contact: Contact) {
+        const sectionEl = this.section('Interactions');
+        const interactions = contact.interactions || [];
+        if (!interactions.length) {
+            sectionEl.createEl('p', { text: 'No interactions logged yet.', cls: 'contacts-timeline-empty' });
+            return;
+        }
+
+        const dateFormat = this.getDateFormat();
+        const list = sectionEl.createEl('ul', { cls: 'contacts-timeline-list' });
+        interactions.forEach(interaction => {
+            const item = list.createEl('li');
+            item.createSpan({ text: formatDisplayDate(interaction.date, dateFormat), cls: 'contacts-timeline-date' });
+            if (interaction.channel) {
+                item.createSpan({ text: interaction.channel, cls: 'contacts-timeline-channel' });
+            }
+            item.createSpan({ text: interaction.summary, cls: 'contacts-timeline-summary' });
+        });
+    }
+
+    // The note below the frontmatter, minus the title and the interaction log shown above
+    private renderBody(contact: Contact) {
+        const body = removeInteractions(contact.body || '')
+            .replace(/^\s*#\s+.*(\n|$)/, '')
+            .trim();
+        if (!body) return;
+        const bodyEl = this.section('Note').createDiv({ cls: 'contacts-detail-body markdown-rendered' });
+        this.markdown = this.parent.addChild(new Component());
+        MarkdownRenderer.render(this.app, body, bodyEl, contact.path || '', this.markdown);
+    }
+
+    // Render the mentions, or say the search failed instead of leaving the section half done
+    private showMentions(containerEl: HTMLElement, contact: Contact, contacts: Contact[]) {
+        this.renderMentions(containerEl, contact, contacts).catch(error => {
+            console.error('Error searching for mentions:', error);
+            if (this.contact !== contact) return;
+            containerEl.empty();
+            containerEl.createEl('p', { text: 'Could not search notes for mentions.', cls: 'contacts-timeline-empty' });
+        });
+    }
+
+    /**
+     * Notes elsewhere in the vault that link to the contact, and the ones
+     * that only name them once the user searches for those.
+     */
+    private async renderMentions(containerEl: HTMLElement, contact: Contact, contacts: Contact[]) {
+        const cached = contact.path ? this.unlinkedMentions.get(contact.path) : undefined;
+        const unlinked = !!cached && cached.signature === vaultSignature(this.app);
+        const mentions = unlinked && cached ? cached.mentions : await findMentions(this.app, contact, contacts);
+        // The selection may have moved on while the vault was searched
+        if (this.contact !== contact) return;
+        containerEl.empty();
+
+        if (!mentions.length) {
+            containerEl.createEl('p', { text: unlinked ? 'Not mentioned in any notes.' : 'Not linked from any notes.', cls: 'contacts-timeline-empty' });
+        } else {
+            const list = containerEl.createEl('ul', { cls: 'contacts-timeline-list' });
+            mentions.slice(0, MAX_MENTIONS).forEach(mention => {
+                const item = list.createEl('li');
+                item.createSpan({ text: formatDisplayDate(mention.date || undefined, this.getDateFormat()) || '', cls: 'contacts-timeline-date' });
+                const link = item.createEl('a', { text: mention.file.basename, cls: 'internal-link' });
+                link.onclick = (event) => {
+                    event.preventDefault();
+                    this.app.workspace.openLinkText(mention.file.path, '', event.metaKey || event.ctrlKey);
+                };
+                if (!mention.linked) item.createSpan({ text: 'unlinked', cls: 'contacts-timeline-channel' });
+                if (mention.snippet) item.createDiv({ text: mention.snippet, cls: 'contacts-mention-snippet' });
+            });
+            if (mentions.length > MAX_MENTIONS) {
+                containerEl.createEl('p', { text: `and ${mentions.length - MAX_MENTIONS} more`, cls: 'contacts-timeline-empty' });
+            }
+        }
+
+        const path = contact.path;
+        if (unlinked || !path) return;
+        const button = containerEl.createEl('button', { text: 'Find unlinked mentions', cls: 'contacts-chip' });
+        button.onclick = async () => {
+            button.disabled = true;
+            try {
+                const signature = vaultSignature(this.app);
+                this.unlinkedMentions.set(path, { mentions: await findMentions(this.app, contact, contacts, true), signature });
+            } catch (error) {
+                console.error('Error searching for mentions:', error);
+                new Notice(`Could not search for mentions: ${error instanceof Error ? error.message : error}`);
+            }
+            this.showMentions(containerEl, contact, contacts);
+        };
+    }
+}
@@ -0,0 +1,65 @@
+import { App, Editor, EditorPosition, EditorSuggest, EditorSuggestContext, EditorSuggestTriggerInfo, prepareFuzzySearch, TFile } from 'obsidian';
+import { Contact } from './types';
+
+const MAX_SUGGESTIONS = 20;
+
+/**
+ * Suggests contacts after the trigger character (e.g. "@Jane") and replaces
+ * the typed text with a link to the chosen contact.
+ */
+export class ContactEditorSuggest extends EditorSuggest<Contact> {
+    constructor(
+        app: App,
+        private getTrigger: () => string,
+        private getContacts: () => Promise<Contact[]>,
+        private linkTo: (contact: Contact, sourcePath: string) => string | null,
+    ) {
+        super(app);
+    }
+
+    onTrigger(cursor: EditorPosition, editor: Editor, file: TFile | null): EditorSuggestTriggerInfo | null {
+        const trigger = this.getTrigger();
+        if (!trigger) return null;
+        const before = editor.getLine(cursor.line).slice(0, cursor.ch);
+        const start = before.lastIndexOf(trigger);
+        if (start < 0) return null;
+        // Only at the start of a word, so email addresses don't trigger it
+        if (start > 0 && !/\s|[([]/.test(before.charAt(start - 1))) return null;
+        const query = before.slice(start + trigger.length);
+        if (/^\s|\s{2}|[\][|]/.test(query) || query.length > 40) return null;
+
+        return {
+            start: { line: cursor.line, ch: start },
+            end: cursor,
+            query,
+        };
+    }
+
+    async getSuggestions(context: EditorSuggestContext): Promise<Contact[]> {
+        const contacts = await this.getContacts();
+        if (!context.query) {
+            return contacts.sort((a, b) => a.name.localeCompare(b.name)).slice(0, MAX_SUGGESTIONS);
+        }
+        const search = prepareFuzzySearch(context.query);
+        return contacts
+            .map(contact => ({ contact, match: search(contact.name) }))
+            .filter(({ match }) => match)
+            .sort((a, b) => (b.match?.score || 0) - (a.match?.score || 0))
+            .slice(0, MAX_SUGGESTIONS)
+            .map(({ contact }) => contact);
+    }
+
+    renderSuggestion(contact: Contact, el: HTMLElement): void {
+        el.createDiv({ text: contact.name });
+        const detail = [contact.title, contact.company].filter(v => v).join(' · ');
+        if (detail) el.createEl('small', { text: detail, cls: 'contacts-suggest-detail' });
+    }
+
+    selectSuggestion(contact: Contact): void {
+        const context = this.context;
+        if (!context) return;
+        const link = this.linkTo(contact, context.file?.path || '') || contact.name;
+        context.editor.replaceRange(link, context.start, context.end);
+        context.editor.setCursor({ line: context.start.line, ch: context.start.ch + link.length });
+    }
+}
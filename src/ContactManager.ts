@@ -1,11 +1,44 @@
-import { TFile, Vault } from 'obsidian';
-import { Contact } from './types';
+import { App, FileManager, MetadataCache, normalizePath, parseYaml, stringifyYaml, TAbstractFile, TFile, Vault } from 'obsidian';
+import { Contact, ContactsPluginSettings, CustomFieldValue, ImportantDate, Interaction, LabeledValue, PostalAddress, Relationship } from './types';
+import { calculateNextContact, resolveFrequency } from './frequency';
+import { addInteraction, parseInteractions } from './interactions';
+import { generateContactId, renderFileNameTemplate } from './identity';
+import { latestMentionDate } from './mentions';
+import { mergeBodies } from './duplicates';
+import { readCustomValue } from './customFields';
+import { DEFAULT_CONTACT_TEMPLATE, renderPlaceholders, renderTemplateFields } from './templates';
+import { localToTimestamp, nowTimestamp, toTimestamp, wallClock } from './dates';
+import { findLinkedContact, formatWikilink, inverseRelationship, wikilinkPath } from './relationships';
+
+/** A contact note's location and frontmatter, taken before a change so it can be undone */
+export interface ContactSnapshot {
+    id?: string;
+    path: string;
+    frontmatter: Record<string, unknown>;
+}
 
 export class ContactManager {
-    constructor(private vault: Vault, private contactsFolder: string) {
+    private vault: Vault;
+    private fileManager: FileManager;
+    private metadataCache: MetadataCache;
+    // Contacts by file path, built on first use and then kept current file by file
+    private index: Promise<Map<string, Contact>> | null = null;
+
+    constructor(private app: App, private settings: ContactsPluginSettings) {
+        this.vault = app.vault;
+        this.fileManager = app.fileManager;
+        this.metadataCache = app.metadataCache;
         this.ensureContactsFolderExists();
     }
 
+    private get contactsFolder(): string {
+        return this.settings.contactsFolder;
+    }
+
+    private get archiveFolder(): string {
+        return normalizePath(`${this.contactsFolder}/${this.settings.archiveFolder}`);
+    }
+
     private async ensureContactsFolderExists() {
         try {
             const folder = this.vault.getAbstractFileByPath(this.contactsFolder);
@@ -18,121 +51,752 @@ export class ContactManager {
         }
     }
 
-    async getAllContacts(): Promise<Contact[]> {
+    /** Contact notes, archived ones included */
+    isContactFile(file: TAbstractFile): file is TFile {
+        return file instanceof TFile && file.extension === 'md' && file.path.startsWith(`${this.contactsFolder}/`);
+    }
+
+    isArchivedPath(path: string): boolean {
+        return path.startsWith(`${this.archiveFolder}/`);
+    }
+
+    /**
+     * The active contacts, or with `includeArchived` the archived ones too.
+     * Reminders, suggestions and the like only ever see active contacts.
+     */
+    async getAllContacts(includeArchived = false): Promise<Contact[]> {
+        const index = await this.getIndex();
+        const contacts = Array.from(index.values());
+        return includeArchived ? contacts : contacts.filter(contact => !contact.archived);
+    }
+
+    private getIndex(): Promise<Map<string, Contact>> {
+        if (!this.index) this.index = this.buildIndex();
+        return this.index;
+    }
+
+    private async buildIndex(): Promise<Map<string, Contact>> {
+        const index = new Map<string, Contact>();
         const folder = this.vault.getAbstractFileByPath(this.contactsFolder);
-        if (!folder) return [];
+        if (!folder) return index;
 
         const files = this.vault.getMarkdownFiles()
-            .filter(file => file.path.startsWith(this.contactsFolder));
+            .filter(file => this.isContactFile(file));
 
-        const contacts: Contact[] = [];
         for (const file of files) {
-            const contact = await this.getContactFromFile(file);
-            if (contact) contacts.push(contact);
+            const contact = await this.readAndAssignId(file);
+            if (contact) index.set(file.path, contact);
+        }
+
+        return index;
+    }
+
+    // Contacts from before ids existed get one written on first read
+    private async readAndAssignId(file: TFile): Promise<Contact | null> {
+        const contact = await this.getContactFromFile(file);
+        if (!contact || contact.id) return contact;
+        const id = generateContactId();
+        await this.fileManager.processFrontMatter(file, frontmatter => {
+            frontmatter.id = id;
+        });
+        return { ...contact, id };
+    }
+
+    /**
+     * Re-read a created or modified file into the index. Resolves to true
+     * when the set of contacts changed.
+     */
+    async refreshFile(file: TAbstractFile): Promise<boolean> {
+        if (!this.isContactFile(file)) return false;
+        const index = await this.getIndex();
+        const contact = await this.readAndAssignId(file);
+        if (contact) {
+            index.set(file.path, contact);
+            return true;
         }
+        return index.delete(file.path);
+    }
+
+    /**
+     * Find a contact's file by its id, falling back to the path it was last
+     * read from.
+     */
+    async getContactFile(contact: Contact): Promise<TFile | null> {
+        const index = await this.getIndex();
+        let path = contact.path;
+        if (contact.id) {
+            for (const [indexedPath, indexed] of index) {
+                if (indexed.id === contact.id) {
+                    path = indexedPath;
+                    break;
+                }
+            }
+        }
+        const file = path ? this.vault.getAbstractFileByPath(path) : null;
+        return file instanceof TFile ? file : null;
+    }
+
+    async getContactById(id: string): Promise<Contact | null> {
+        const index = await this.getIndex();
+        for (const contact of index.values()) {
+            if (contact.id === id) return contact;
+        }
+        return null;
+    }
+
+    async removeFile(path: string): Promise<boolean> {
+        const index = await this.getIndex();
+        return index.delete(path);
+    }
 
-        return contacts;
+    async renameFile(file: TAbstractFile, oldPath: string): Promise<boolean> {
+        const removed = await this.removeFile(oldPath);
+        const added = await this.refreshFile(file);
+        return removed || added;
     }
 
     async getContactFromFile(file: TFile): Promise<Contact | null> {
         const content = await this.vault.read(file);
         const frontmatter = this.extractFrontMatter(content);
         if (!frontmatter || !frontmatter.name) return null;
+        const match = content.match(FRONTMATTER_REGEX);
+        const body = match ? content.slice(match[0].length).replace(/^\s*\n/, '') : content;
+        const interactions = parseInteractions(body);
+        const contactFrequency = asString(frontmatter.contact_frequency);
+        const tags = asStringList(frontmatter.tags);
+        let lastContacted = asString(frontmatter.last_contacted);
+        let nextContact = asString(frontmatter.next_contact);
 
-        // Parse tags as array if comma-separated
-        let tags: string[] | undefined = undefined;
-        if (frontmatter.tags) {
-            if (Array.isArray(frontmatter.tags)) {
-                tags = frontmatter.tags;
-            } else if (typeof frontmatter.tags === 'string') {
-                tags = frontmatter.tags.split(',').map((t: string) => t.trim());
-            }
+        // A logged interaction newer than last_contacted (e.g. added by hand)
+        // wins. Both are compared as written, since the log has no timezone.
+        const latest = this.latestActivity(file, interactions);
+        const lastWritten = lastContacted && wallClock(lastContacted);
+        if (latest && (!lastWritten || latest > lastWritten)) {
+            lastContacted = localToTimestamp(latest) || latest;
+            const frequency = resolveFrequency({ contact_frequency: contactFrequency, tags }, this.settings.tagFrequencies);
+            nextContact = (frequency && calculateNextContact(lastContacted, frequency)) || nextContact;
         }
 
         return {
-            name: frontmatter.name,
-            email: frontmatter.email || '',
-            phone: frontmatter.phone || '',
-            company: frontmatter.company,
-            title: frontmatter.title,
-            notes: frontmatter.notes,
+            id: asString(frontmatter.id),
+            path: file.path,
+            archived: this.isArchivedPath(file.path) || undefined,
+            name: asString(frontmatter.name) || '',
+            emails: asLabeledValues(frontmatter.emails) || asLabeledValues(frontmatter.email),
+            phones: asLabeledValues(frontmatter.phones) || asLabeledValues(frontmatter.phone),
+            addresses: asAddresses(frontmatter.addresses),
+            urls: asLabeledValues(frontmatter.urls),
+            company: asString(frontmatter.company),
+            title: asString(frontmatter.title),
+            notes: asString(frontmatter.notes),
             tags,
-            created: frontmatter.created || file.stat.ctime.toString(),
-            modified: frontmatter.modified || file.stat.mtime.toString(),
-            last_contacted: frontmatter.last_contacted,
-            next_contact: frontmatter.next_contact,
-            contact_frequency: frontmatter.contact_frequency,
+            groups: asStringList(frontmatter.groups),
+            relationships: asRelationships(frontmatter.relationships),
+            avatar: asString(frontmatter.avatar),
+            birthday: asString(frontmatter.birthday),
+            important_dates: asImportantDates(frontmatter.important_dates),
+            created: asString(frontmatter.created) || toTimestamp(new Date(file.stat.ctime)),
+            modified: asString(frontmatter.modified) || toTimestamp(new Date(file.stat.mtime)),
+            last_contacted: lastContacted,
+            next_contact: nextContact,
+            contact_frequency: contactFrequency,
+            custom: this.readCustomFields(frontmatter),
+            body,
+            interactions,
         };
     }
 
+    // The newest logged interaction, or dated note linking here when those count
+    private latestActivity(file: TFile, interactions: Interaction[]): string | undefined {
+        const logged = interactions[0]?.date;
+        if (!this.settings.mentionsAsInteractions) return logged;
+        const mentioned = latestMentionDate(this.app, file.path, path => path.startsWith(`${this.contactsFolder}/`));
+        if (!logged || !mentioned) return logged || mentioned || undefined;
+        // Local YYYY-MM-DD[THH:mm] strings sort by time; a timed entry on the same day wins
+        return mentioned > logged ? mentioned : logged;
+    }
+
+    /**
+     * Re-read the contacts a note links to, for when dated mentions count as
+     * interactions. Resolves to true when any of them changed.
+     */
+    async refreshLinkedContacts(file: TAbstractFile): Promise<boolean> {
+        if (!this.settings.mentionsAsInteractions || this.isContactFile(file)) return false;
+        let changed = false;
+        for (const path of Object.keys(this.metadataCache.resolvedLinks[file.path] || {})) {
+            const linked = this.vault.getAbstractFileByPath(path);
+            if (linked && await this.refreshFile(linked)) changed = true;
+        }
+        return changed;
+    }
+
+    /**
+     * Drop the index so the next read rebuilds it, e.g. after a setting that
+     * changes how contacts are read.
+     */
+    resetIndex() {
+        this.index = null;
+    }
+
+    /**
+     * Start over after the contacts folder setting changed: create the new
+     * folder if needed and index it on the next read.
+     */
+    async contactsFolderChanged() {
+        this.resetIndex();
+        await this.ensureContactsFolderExists();
+    }
+
+    private readCustomFields(frontmatter: any): Record<string, CustomFieldValue> | undefined {
+        const custom: Record<string, CustomFieldValue> = {};
+        this.settings.customFields.forEach(field => {
+            const value = readCustomValue(field, frontmatter[field.key]);
+            if (value !== undefined) custom[field.key] = value;
+        });
+        return Object.keys(custom).length ? custom : undefined;
+    }
+
+    // Parsed from the file content rather than the metadata cache, which lags
+    // behind writes made a moment earlier.
     private extractFrontMatter(content: string): any {
-        const frontMatterRegex = /^---\n([\s\S]*?)\n---/;
-        const match = content.match(frontMatterRegex);
+        const match = content.match(FRONTMATTER_REGEX);
         if (!match) return null;
 
-        const yaml = match[1];
         try {
-            return yaml.split('\n').reduce((acc: any, line: string) => {
-                const [key, ...values] = line.split(':').map(s => s.trim());
-                if (key && values.length) {
-                    acc[key] = values.join(':');
-                }
-                return acc;
-            }, {});
+            const frontmatter = parseYaml(match[1]);
+            return frontmatter && typeof frontmatter === 'object' ? frontmatter : null;
         } catch (e) {
             console.error('Error parsing frontmatter:', e);
             return null;
         }
     }
 
-    async createContact(contact: Contact): Promise<void> {
-        const fileName = `${contact.name.replace(/[^a-zA-Z0-9]/g, '-')}.md`;
-        const filePath = `${this.contactsFolder}/${fileName}`;
+    async createContact(contact: Contact): Promise<TFile> {
+        const withId: Contact = { ...contact, id: contact.id || generateContactId() };
+        const filePath = this.availablePath(renderFileNameTemplate(this.settings.fileNameTemplate, withId));
+
+        const template = await this.readTemplate();
+        const customKeys = this.settings.customFields.map(field => field.key);
+        const match = template.match(FRONTMATTER_REGEX);
+        // Fields in the template's frontmatter are defaults the contact's own values override
+        const templateFields = match ? this.extractFrontMatter(template) || {} : {};
+        const body = match ? template.slice(match[0].length).replace(/^\r?\n/, '') : template;
+
+        const frontMatter: Record<string, unknown> = {};
+        this.applyContactFields(frontMatter, withId);
+        const fields = { ...renderTemplateFields(templateFields, withId, customKeys), ...frontMatter };
+        const fileContent = `---\n${stringifyYaml(fields)}---\n\n${renderPlaceholders(body, withId, customKeys)}`;
+
+        await this.ensureFolder(filePath);
+        const file = await this.vault.create(filePath, fileContent);
+        await this.refreshFile(file);
+        await this.syncReverseRelationships(file, [], withId.relationships || []);
+        return file;
+    }
+
+    /**
+     * Content of the template note from the settings, or the default heading
+     * when none is set or the note is missing.
+     */
+    private async readTemplate(): Promise<string> {
+        const path = this.settings.contactTemplate;
+        if (!path) return DEFAULT_CONTACT_TEMPLATE;
+        const file = this.vault.getAbstractFileByPath(normalizePath(path.endsWith('.md') ? path : `${path}.md`));
+        if (!(file instanceof TFile)) {
+            console.warn(`Contact template "${path}" not found, using the default`);
+            return DEFAULT_CONTACT_TEMPLATE;
+        }
+        return this.vault.cachedRead(file);
+    }
+
+    async updateContact(contact: Contact): Promise<void> {
+        const file = await this.getContactFile(contact);
+        if (!file) throw new Error('Contact file not found');
+
+        // Rename the file only when the name changed, so hand-picked file names stay
+        const previous = (await this.getIndex()).get(file.path);
+        let target = file;
+        if (previous && previous.name !== contact.name) {
+            let relative = renderFileNameTemplate(this.settings.fileNameTemplate, contact);
+            // Archived contacts stay in the archive folder
+            if (previous.archived) relative = `${this.settings.archiveFolder}/${relative.split('/').pop()}`;
+            const newPath = this.availablePath(relative, file.path);
+            if (newPath !== file.path) {
+                await this.ensureFolder(newPath);
+                const oldPath = file.path;
+                const referrers = await this.findRelationshipLinksTo(file);
+                // fileManager keeps links to the file pointing at it
+                await this.fileManager.renameFile(file, newPath);
+                await this.removeFile(oldPath);
+                const renamed = this.vault.getAbstractFileByPath(newPath);
+                if (!(renamed instanceof TFile)) throw new Error('Updated contact file not found');
+                target = renamed;
+                await this.relinkRelationships(referrers, renamed, contact.name);
+            }
+        }
+
+        // Only the frontmatter is rewritten; the note body belongs to the user
+        await this.fileManager.processFrontMatter(target, frontmatter => {
+            this.applyContactFields(frontmatter, { ...contact, id: contact.id || previous?.id });
+        });
+        await this.refreshFile(target);
+        await this.syncReverseRelationships(target, previous?.relationships || [], contact.relationships || []);
+    }
+
+    /**
+     * Move the contact's file into the archive folder, which hides it from
+     * the default view, reminders and suggestions. Links to it keep working.
+     */
+    async archiveContact(contact: Contact): Promise<void> {
+        const file = await this.getContactFile(contact);
+        if (!file) throw new Error('Contact file not found');
+        if (this.isArchivedPath(file.path)) return;
+        let path = normalizePath(`${this.archiveFolder}/${file.name}`);
+        for (let n = 2; this.vault.getAbstractFileByPath(path); n++) {
+            path = normalizePath(`${this.archiveFolder}/${file.basename}-${n}.${file.extension}`);
+        }
+        await this.ensureFolder(path);
+        const oldPath = file.path;
+        await this.fileManager.renameFile(file, path);
+        await this.removeFile(oldPath);
+        const archived = this.vault.getAbstractFileByPath(path);
+        if (archived) await this.refreshFile(archived);
+    }
+
+    /**
+     * Move an archived contact back to where the file name template puts it.
+     */
+    async restoreContact(contact: Contact): Promise<void> {
+        const file = await this.getContactFile(contact);
+        if (!file) throw new Error('Contact file not found');
+        if (!this.isArchivedPath(file.path)) return;
+        const path = this.availablePath(renderFileNameTemplate(this.settings.fileNameTemplate, contact));
+        await this.ensureFolder(path);
+        const oldPath = file.path;
+        await this.fileManager.renameFile(file, path);
+        await this.removeFile(oldPath);
+        const restored = this.vault.getAbstractFileByPath(path);
+        if (restored) await this.refreshFile(restored);
+    }
+
+    async snapshotContact(contact: Contact): Promise<ContactSnapshot> {
+        const file = await this.getContactFile(contact);
+        if (!file) throw new Error('Contact file not found');
+        const frontmatter = this.extractFrontMatter(await this.vault.read(file)) || {};
+        return { id: contact.id, path: file.path, frontmatter };
+    }
+
+    /**
+     * Put a contact back the way a snapshot found it: the file moves back to
+     * where it was and its frontmatter is replaced by the snapshot's.
+     */
+    async restoreSnapshot(snapshot: ContactSnapshot): Promise<void> {
+        let file = await this.getContactFile({ id: snapshot.id, path: snapshot.path } as Contact);
+        if (!file) throw new Error('Contact file not found');
+        if (file.path !== snapshot.path) {
+            if (this.vault.getAbstractFileByPath(snapshot.path)) throw new Error(`${snapshot.path} already exists`);
+            await this.ensureFolder(snapshot.path);
+            const oldPath = file.path;
+            await this.fileManager.renameFile(file, snapshot.path);
+            await this.removeFile(oldPath);
+            const moved = this.vault.getAbstractFileByPath(snapshot.path);
+            if (!(moved instanceof TFile)) throw new Error('Restored contact file not found');
+            file = moved;
+        }
+        await this.fileManager.processFrontMatter(file, frontmatter => {
+            Object.keys(frontmatter).forEach(key => delete frontmatter[key]);
+            Object.assign(frontmatter, snapshot.frontmatter);
+        });
+        await this.refreshFile(file);
+    }
+
+    /**
+     * Delete the contact's file the way the user's "Deleted files" option
+     * says: system trash, the vault's .trash folder, or for good.
+     */
+    async deleteContact(contact: Contact): Promise<void> {
+        const file = await this.getContactFile(contact);
+        if (!file) throw new Error('Contact file not found');
+        const path = file.path;
+        await this.fileManager.trashFile(file);
+        await this.removeFile(path);
+    }
+
+    /**
+     * Merge `other` into `keep`: write the merged fields and both bodies into
+     * keep's file, point every link to other at keep, then archive or delete
+     * other.
+     */
+    async mergeContacts(keep: Contact, other: Contact, merged: Contact, removal: 'archive' | 'delete'): Promise<void> {
+        const keepFile = await this.getContactFile(keep);
+        const otherFile = await this.getContactFile(other);
+        if (!keepFile || !otherFile) throw new Error('Contact file not found');
+
+        // Links between the two would end up pointing at themselves
+        const relationships: Relationship[] = [];
+        for (const relationship of merged.relationships || []) {
+            const target = await this.resolveRelationship(relationship.contact, keepFile.path)
+                || await this.resolveRelationship(relationship.contact, otherFile.path);
+            if (target?.path !== keepFile.path && target?.path !== otherFile.path) relationships.push(relationship);
+        }
+
+        const body = mergeBodies(keep.body || '', other.body || '', other.name);
+        await this.vault.process(keepFile, content => {
+            const match = content.match(FRONTMATTER_REGEX);
+            return match ? `${match[0]}\n\n${body}` : body;
+        });
+        await this.refreshFile(keepFile);
+        await this.updateContact({ ...merged, id: keep.id, relationships: relationships.length ? relationships : undefined });
+
+        const target = await this.getContactFile(keep);
+        if (target) await this.replaceLinks(otherFile, target);
+
+        if (removal === 'archive') await this.archiveContact(other);
+        else await this.deleteContact(other);
+    }
+
+    /**
+     * Point every link to `from` in the vault at `to` instead: links in note
+     * bodies, frontmatter properties, and contacts' relationships. Link text
+     * that was shown stays as an alias.
+     */
+    private async replaceLinks(from: TFile, to: TFile) {
+        const toName = (await this.getIndex()).get(to.path)?.name;
+        const sources = new Set(Object.keys(this.metadataCache.resolvedLinks)
+            .filter(source => source !== from.path && this.metadataCache.resolvedLinks[source][from.path]));
+        const relationshipLinks = await this.findRelationshipLinksTo(from);
+        relationshipLinks.forEach((_, path) => sources.add(path));
+        sources.delete(from.path);
+
+        for (const path of sources) {
+            const source = this.vault.getAbstractFileByPath(path);
+            if (!(source instanceof TFile)) continue;
+            const cache = this.metadataCache.getFileCache(source);
+            const pointsAtFrom = (link: string) =>
+                this.metadataCache.getFirstLinkpathDest(link.split('#')[0].split('|')[0], source.path)?.path === from.path;
+
+            const bodyLinks = (cache?.links || []).filter(link => pointsAtFrom(link.link));
+            if (bodyLinks.length) {
+                await this.vault.process(source, content => {
+                    // From the end, so earlier offsets stay valid
+                    let result = content;
+                    [...bodyLinks]
+                        .sort((x, y) => y.position.start.offset - x.position.start.offset)
+                        .forEach(link => {
+                            const { start, end } = link.position;
+                            if (result.slice(start.offset, end.offset) !== link.original) return;
+                            const subpath = link.link.includes('#') ? link.link.slice(link.link.indexOf('#')) : '';
+                            const alias = link.displayText || link.link;
+                            const replacement = this.fileManager.generateMarkdownLink(to, source.path, subpath, alias);
+                            result = result.slice(0, start.offset) + replacement + result.slice(end.offset);
+                        });
+                    return result;
+                });
+            }
+
+            const frontmatterLinks = (cache?.frontmatterLinks || []).filter(link => pointsAtFrom(link.link));
+            const oldRelationshipLinks = relationshipLinks.get(path) || [];
+            if (frontmatterLinks.length || oldRelationshipLinks.length) {
+                const newLink = formatWikilink(this.metadataCache.fileToLinktext(to, source.path, true), toName);
+                await this.fileManager.processFrontMatter(source, frontmatter => {
+                    frontmatterLinks.forEach(link => {
+                        // Keys are like "related" or "related.1" for lists
+                        const [key, index] = link.key.split('.');
+                        if (index === undefined) {
+                            if (frontmatter[key] === link.original) frontmatter[key] = newLink;
+                        } else if (Array.isArray(frontmatter[key]) && frontmatter[key][Number(index)] === link.original) {
+                            frontmatter[key][Number(index)] = newLink;
+                        }
+                    });
+                    const relationships = asRelationships(frontmatter.relationships);
+                    if (relationships && relationships.some(r => oldRelationshipLinks.includes(r.contact))) {
+                        frontmatter.relationships = relationships.map(r =>
+                            oldRelationshipLinks.includes(r.contact) ? { ...r, contact: newLink } : r);
+                    }
+                });
+            }
+            await this.refreshFile(source);
+        }
+    }
+
+    /**
+     * Wikilink to a contact's file, aliased with the name when the file name
+     * differs from it. Null for contacts that have no file yet.
+     */
+    linkToContact(contact: Contact, sourcePath = ''): string | null {
+        const file = contact.path ? this.vault.getAbstractFileByPath(contact.path) : null;
+        if (!(file instanceof TFile)) return null;
+        return formatWikilink(this.metadataCache.fileToLinktext(file, sourcePath, true), contact.name);
+    }
+
+    private async resolveRelationship(link: string, sourcePath: string): Promise<Contact | null> {
+        return findLinkedContact(link, sourcePath, await this.getAllContacts(), this.metadataCache);
+    }
+
+    /**
+     * With reverse relationships on, give each newly linked contact the
+     * matching link back (parent gets child, and so on), and take it away
+     * again when a relationship is removed.
+     */
+    private async syncReverseRelationships(file: TFile, before: Relationship[], after: Relationship[]) {
+        const self = (await this.getIndex()).get(file.path);
+        if (!this.settings.reverseRelationships || !self) return;
+        const key = (r: Relationship) => `${r.type.toLowerCase()}|${r.contact}`;
+        const added = after.filter(r => !before.some(b => key(b) === key(r)));
+        const removed = before.filter(r => !after.some(a => key(a) === key(r)));
+
+        const changes: { path: string; type: string; add: boolean }[] = [];
+        for (const [list, add] of [[added, true], [removed, false]] as [Relationship[], boolean][]) {
+            for (const relationship of list) {
+                const type = inverseRelationship(relationship.type);
+                if (!type) continue;
+                const other = await this.resolveRelationship(relationship.contact, file.path);
+                if (other?.path && other.path !== file.path) changes.push({ path: other.path, type, add });
+            }
+        }
+
+        for (const { path, type, add } of changes) {
+            // Read from the index each time; an earlier change may have touched the same contact
+            const other = (await this.getIndex()).get(path);
+            const otherFile = this.vault.getAbstractFileByPath(path);
+            if (!other || !(otherFile instanceof TFile)) continue;
+            const existing = other.relationships || [];
+            const matches: boolean[] = [];
+            for (const r of existing) {
+                matches.push(r.type.toLowerCase() === type
+                    && (await this.resolveRelationship(r.contact, otherFile.path))?.path === file.path);
+            }
+            let relationships: Relationship[];
+            if (add) {
+                const link = this.linkToContact(self, otherFile.path);
+                if (matches.some(m => m) || !link) continue;
+                relationships = [...existing, { type, contact: link }];
+            } else {
+                if (!matches.some(m => m)) continue;
+                relationships = existing.filter((_, i) => !matches[i]);
+            }
+
+            await this.fileManager.processFrontMatter(otherFile, frontmatter => {
+                if (relationships.length) frontmatter.relationships = relationships;
+                else delete frontmatter.relationships;
+            });
+            await this.refreshFile(otherFile);
+        }
+    }
+
+    // Relationship links that resolve to the file, by the contact file they're in
+    private async findRelationshipLinksTo(file: TFile): Promise<Map<string, string[]>> {
+        const referrers = new Map<string, string[]>();
+        for (const contact of await this.getAllContacts()) {
+            if (!contact.path) continue;
+            for (const relationship of contact.relationships || []) {
+                if ((await this.resolveRelationship(relationship.contact, contact.path))?.path !== file.path) continue;
+                referrers.set(contact.path, [...(referrers.get(contact.path) || []), relationship.contact]);
+            }
+        }
+        return referrers;
+    }
+
+    /**
+     * Point relationship links found by findRelationshipLinksTo at the file's
+     * new path. Obsidian may already have updated them, depending on the
+     * user's "Automatically update internal links" option; those are left as
+     * they are.
+     */
+    private async relinkRelationships(referrers: Map<string, string[]>, file: TFile, name: string) {
+        for (const [path, links] of referrers) {
+            const referrer = this.vault.getAbstractFileByPath(path);
+            if (!(referrer instanceof TFile)) continue;
+            const link = formatWikilink(this.metadataCache.fileToLinktext(file, referrer.path, true), name);
+            await this.fileManager.processFrontMatter(referrer, frontmatter => {
+                const relationships = asRelationships(frontmatter.relationships);
+                if (!relationships) return;
+                let changed = false;
+                relationships.forEach(relationship => {
+                    if (!links.includes(relationship.contact)) return;
+                    const linkpath = wikilinkPath(relationship.contact);
+                    if (linkpath && this.metadataCache.getFirstLinkpathDest(linkpath, referrer.path)?.path === file.path) return;
+                    relationship.contact = link;
+                    changed = true;
+                });
+                if (changed) frontmatter.relationships = relationships;
+            });
+            await this.refreshFile(referrer);
+        }
+    }
+
+    /**
+     * Full path for a contact file, with "-2", "-3", … appended to the name
+     * if it's taken. `currentPath` counts as free, for renames.
+     */
+    private availablePath(relative: string, currentPath?: string): string {
+        const base = normalizePath(`${this.contactsFolder}/${relative}`);
+        let path = `${base}.md`;
+        for (let n = 2; this.vault.getAbstractFileByPath(path) && path !== currentPath; n++) {
+            path = `${base}-${n}.md`;
+        }
+        return path;
+    }
+
+    private async ensureFolder(filePath: string) {
+        const folder = filePath.slice(0, filePath.lastIndexOf('/'));
+        if (folder && !this.vault.getAbstractFileByPath(folder)) {
+            await this.vault.createFolder(folder);
+        }
+    }
 
-        const frontMatter = this.createFrontMatter(contact);
-        const fileContent = `---\n${frontMatter}\n---\n\n# ${contact.name}\n\n${contact.notes || ''}`;
+    /**
+     * Add an entry to the contact's interaction log and bring last_contacted
+     * and next_contact up to date with the newest entry.
+     */
+    async logInteraction(contact: Contact, interaction: Interaction): Promise<void> {
+        const file = await this.getContactFile(contact);
+        if (!file) throw new Error('Contact file not found');
 
-        await this.vault.create(filePath, fileContent);
+        await this.vault.process(file, content => {
+            const match = content.match(FRONTMATTER_REGEX);
+            if (!match) return addInteraction(content, interaction);
+            const body = content.slice(match[0].length).replace(/^\s*\n/, '');
+            return `${match[0]}\n\n${addInteraction(body, interaction)}`;
+        });
+
+        const updated = await this.getContactFromFile(file);
+        if (!updated) return;
+        await this.fileManager.processFrontMatter(file, frontmatter => {
+            this.applyContactFields(frontmatter, { ...updated, modified: nowTimestamp() });
+        });
+        await this.refreshFile(file);
     }
 
-    async updateContact(contact: Contact, originalName?: string): Promise<void> {
-        const oldFileName = `${(originalName || contact.name).replace(/[^a-zA-Z0-9]/g, '-')}.md`;
-        const newFileName = `${contact.name.replace(/[^a-zA-Z0-9]/g, '-')}.md`;
-        const oldFilePath = `${this.contactsFolder}/${oldFileName}`;
-        const newFilePath = `${this.contactsFolder}/${newFileName}`;
+    /**
+     * Write the contact's fields into a frontmatter object in place. Keys the
+     * plugin doesn't know about are left alone, and a field is only touched
+     * when its value actually changed, so hand-written formatting survives.
+     */
+    private applyContactFields(frontmatter: any, contact: Contact) {
+        const fields: Record<string, unknown> = {
+            id: contact.id,
+            name: contact.name,
+            emails: contact.emails,
+            phones: contact.phones,
+            addresses: contact.addresses,
+            urls: contact.urls,
+            company: contact.company,
+            title: contact.title,
+            notes: contact.notes,
+            tags: contact.tags,
+            groups: contact.groups,
+            relationships: contact.relationships,
+            avatar: contact.avatar,
+            birthday: contact.birthday,
+            important_dates: contact.important_dates,
+            last_contacted: contact.last_contacted,
+            next_contact: contact.next_contact,
+            contact_frequency: contact.contact_frequency,
+            created: contact.created,
+            modified: contact.modified,
+        };
 
-        const file = this.vault.getAbstractFileByPath(oldFilePath);
-        if (!file) throw new Error('Original contact file not found');
+        // A custom field is only written when the contact has its key, even
+        // if undefined to clear it; values the type can't read stay as they are
+        this.settings.customFields.forEach(field => {
+            if (contact.custom && field.key in contact.custom) fields[field.key] = contact.custom[field.key];
+        });
 
-        // If the name changed, rename the file
-        if (oldFilePath !== newFilePath) {
-            await this.vault.rename(file, newFilePath);
+        for (const [key, value] of Object.entries(fields)) {
+            const customField = this.settings.customFields.find(field => field.key === key);
+            const read = customField ? (raw: unknown) => readCustomValue(customField, raw) : FIELD_READERS[key] || asString;
+            const current = read(frontmatter[key]);
+            if (isEmpty(value)) {
+                if (!isEmpty(current)) delete frontmatter[key];
+            } else if (JSON.stringify(current) !== JSON.stringify(value)) {
+                frontmatter[key] = value;
+            }
         }
 
-        // Update the content
-        const frontMatter = this.createFrontMatter(contact);
-        const fileContent = `---\n${frontMatter}\n---\n\n# ${contact.name}\n\n${contact.notes || ''}`;
-        const updatedFile = this.vault.getAbstractFileByPath(newFilePath);
-        if (!updatedFile || updatedFile instanceof TFile === false) throw new Error('Updated contact file not found');
-        await this.vault.modify(updatedFile as TFile, fileContent);
+        // Older versions stored a single email and phone; the lists replace them
+        delete frontmatter.email;
+        delete frontmatter.phone;
     }
+}
+
+const FRONTMATTER_REGEX = /^---\r?\n([\s\S]*?)\r?\n?---(?=\r?\n|$)/;
 
-    private createFrontMatter(contact: Contact): string {
-        const frontMatter = [
-            `name: ${contact.name}`,
-            `email: ${contact.email}`,
-            `phone: ${contact.phone}`
-        ];
+// How to read each non-string field back, so unchanged values compare equal
+const FIELD_READERS: Record<string, (value: unknown) => unknown> = {
+    tags: asStringList,
+    groups: asStringList,
+    relationships: asRelationships,
+    emails: asLabeledValues,
+    phones: asLabeledValues,
+    addresses: asAddresses,
+    urls: asLabeledValues,
+    important_dates: asImportantDates,
+};
 
-        if (contact.company) frontMatter.push(`company: ${contact.company}`);
-        if (contact.title) frontMatter.push(`title: ${contact.title}`);
-        if (contact.tags?.length) frontMatter.push(`tags: ${contact.tags.join(', ')}`);
-        if (contact.last_contacted) frontMatter.push(`last_contacted: ${contact.last_contacted}`);
-        if (contact.next_contact) frontMatter.push(`next_contact: ${contact.next_contact}`);
-        if (contact.contact_frequency) frontMatter.push(`contact_frequency: ${contact.contact_frequency}`);
-        frontMatter.push(`created: ${contact.created}`);
-        frontMatter.push(`modified: ${contact.modified}`);
+function isEmpty(value: unknown): boolean {
+    return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
 
-        return frontMatter.join('\n');
+function asString(value: unknown): string | undefined {
+    if (value === undefined || value === null) return undefined;
+    // Unquoted YAML timestamps may come back as Date objects
+    if (value instanceof Date) {
+        const iso = value.toISOString();
+        return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
     }
-}
\ No newline at end of file
+    return String(value);
+}
+
+// Tags used to be written as a comma-separated string, so accept both forms
+function asStringList(value: unknown): string[] | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    const list = Array.isArray(value) ? value.map(String) : String(value).split(',');
+    const items = list.map(item => item.trim()).filter(item => item);
+    return items.length ? items : undefined;
+}
+
+function asImportantDates(value: unknown): ImportantDate[] | undefined {
+    if (!Array.isArray(value)) return undefined;
+    const dates = value
+        .filter(item => item && typeof item === 'object')
+        .map(item => ({ label: asString(item.label) || '', date: asString(item.date) || '' }))
+        .filter(item => item.date);
+    return dates.length ? dates : undefined;
+}
+
+// Accepts [{label, value}], plain strings, or a single string from older files
+function asLabeledValues(value: unknown): LabeledValue[] | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    const items = (Array.isArray(value) ? value : [value])
+        .map(item => item && typeof item === 'object'
+            ? { label: asString(item.label) || '', value: asString(item.value) || '' }
+            : { label: '', value: asString(item) || '' })
+        .filter(item => item.value.trim());
+    return items.length ? items : undefined;
+}
+
+function asAddresses(value: unknown): PostalAddress[] | undefined {
+    if (!Array.isArray(value)) return undefined;
+    const addresses = value
+        .filter(item => item && typeof item === 'object')
+        .map(item => {
+            const address: PostalAddress = { label: asString(item.label) || '' };
+            (['street', 'city', 'region', 'postal_code', 'country'] as const).forEach(key => {
+                const part = asString(item[key]);
+                if (part) address[key] = part;
+            });
+            return address;
+        })
+        .filter(address => Object.keys(address).length > 1);
+    return addresses.length ? addresses : undefined;
+}
+
+function asRelationships(value: unknown): Relationship[] | undefined {
+    if (!Array.isArray(value)) return undefined;
+    const relationships = value
+        .filter(item => item && typeof item === 'object')
+        .map(item => ({ type: asString(item.type) || '', contact: asString(item.contact) || '' }))
+        .filter(item => item.contact);
+    return relationships.length ? relationships : undefined;
+}
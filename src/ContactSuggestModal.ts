@@ -0,0 +1,21 @@
+import { App, FuzzySuggestModal } from 'obsidian';
+import { Contact } from './types';
+
+export class ContactSuggestModal extends FuzzySuggestModal<Contact> {
+    constructor(app: App, private contacts: Contact[], private onChoose: (contact: Contact) => void) {
+        super(app);
+        this.setPlaceholder('Choose a contact');
+    }
+
+    getItems(): Contact[] {
+        return this.contacts;
+    }
+
+    getItemText(contact: Contact): string {
+        return contact.company ? `${contact.name} (${contact.company})` : contact.name;
+    }
+
+    onChooseItem(contact: Contact): void {
+        this.onChoose(contact);
+    }
+}
@@ -1,30 +1,66 @@
-import { ItemView, WorkspaceLeaf } from 'obsidian';
-import { Contact } from './types';
+import { debounce, DropdownComponent, ItemView, Menu, SearchComponent, setIcon, WorkspaceLeaf } from 'obsidian';
+import { Contact, ContactSortKey, ContactViewState, CustomFieldDefinition, DueFilter } from './types';
+import { filterContacts, getDueStatus, sortContacts } from './contactFilters';
+import { primaryEmail, primaryPhone } from './contactDetails';
+import { customFilterValues, formatCustomValue } from './customFields';
+import { DUE_STATUS_LABELS, formatBirthday, renderAvatar } from './contactDisplay';
+import { formatDisplayDate } from './dates';
+import { ContactActions, ContactDetailPane } from './ContactDetailPane';
 
 export const CONTACTS_VIEW_TYPE = 'contacts-view';
 
-function formatDate(dateStr?: string): string | undefined {
-    if (!dateStr) return undefined;
-    // Try to parse and format as YYYY-MM-DD or YYYY-MM-DDTHH:mm
-    const d = new Date(dateStr);
-    if (isNaN(d.getTime())) return dateStr; // fallback if not a valid date
-    // If time is not midnight, show time
-    if (d.getHours() !== 0 || d.getMinutes() !== 0) {
-        // Pad month, day, hours, minutes
-        const pad = (n: number) => n.toString().padStart(2, '0');
-        return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
-    } else {
-        // Just show date
-        const pad = (n: number) => n.toString().padStart(2, '0');
-        return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
-    }
+const COLUMNS: { key: ContactSortKey; label: string; render: (contact: Contact, dateFormat: string) => string }[] = [
+    { key: 'name', label: 'Name', render: c => c.name },
+    { key: 'email', label: 'Email', render: c => primaryEmail(c) },
+    { key: 'phone', label: 'Phone', render: c => primaryPhone(c) },
+    { key: 'birthday', label: 'Birthday', render: c => formatBirthday(c.birthday) },
+    { key: 'last_contacted', label: 'Last Contacted', render: (c, format) => formatDisplayDate(c.last_contacted, format) || 'Never' },
+    { key: 'next_contact', label: 'Next Contact', render: (c, format) => formatDisplayDate(c.next_contact, format) || 'Not scheduled' },
+    { key: 'contact_frequency', label: 'Frequency', render: c => c.contact_frequency || 'Not set' },
+];
+
+// A list filter of the view state: its dropdown options and how to replace its selection
+interface ListFilter {
+    label: string;
+    prefix: string;
+    selected: string[];
+    set: (selected: string[]) => void;
+    values: string[];
 }
 
+const DUE_FILTERS: { value: DueFilter; label: string }[] = [
+    { value: 'overdue', label: 'Overdue' },
+    { value: 'due_this_week', label: 'Due this week' },
+    { value: 'never_contacted', label: 'Never contacted' },
+];
+
 export class ContactView extends ItemView {
     private contacts: Contact[] = [];
+    private selectedId: string | null = null;
+    private detailPane: ContactDetailPane | null = null;
+    // The selected row or card, to move keyboard focus back to
+    private selectedEl: HTMLElement | null = null;
+    private resultsEl: HTMLElement | null = null;
+    private filtersEl: HTMLElement | null = null;
+    private countEl: HTMLElement | null = null;
+    private bulkEl: HTMLElement | null = null;
+    // Paths of the contacts ticked for a bulk action
+    private checked = new Set<string>();
+    // The last contact ticked or unticked, where a shift-click range starts
+    private lastCheckedPath: string | null = null;
+    private requestSaveState: () => void;
 
-    constructor(leaf: WorkspaceLeaf) {
+    constructor(
+        leaf: WorkspaceLeaf,
+        private viewState: ContactViewState,
+        saveViewState: () => Promise<void>,
+        private layout: 'table' | 'grid',
+        private getCustomFields: () => CustomFieldDefinition[],
+        private getDateFormat: () => string,
+        private actions: ContactActions,
+    ) {
         super(leaf);
+        this.requestSaveState = debounce(() => saveViewState(), 500, true);
     }
 
     getViewType(): string {
@@ -36,32 +72,6 @@ export class ContactView extends ItemView {
     }
 
     async onOpen() {
-        // Update next_contact for contacts with frequency and last_contacted
-        // @ts-ignore: plugin is available via window
-        const plugin = (window as any).app.plugins.plugins['obsidian-contacts'];
-        if (plugin && plugin.contactManager) {
-            let updated = false;
-            for (const contact of this.contacts) {
-                if (contact.contact_frequency && contact.last_contacted) {
-                    const calculatedNext = plugin.calculateNextContact
-                        ? plugin.calculateNextContact(contact.last_contacted, contact.contact_frequency)
-                        : (window as any).calculateNextContact
-                            ? (window as any).calculateNextContact(contact.last_contacted, contact.contact_frequency)
-                            : undefined;
-                    if (calculatedNext && contact.next_contact !== calculatedNext) {
-                        contact.next_contact = calculatedNext;
-                        // Save update
-                        plugin.contactManager.updateContact(contact, contact.name);
-                        updated = true;
-                    }
-                }
-            }
-            // If any were updated, reload contacts after save
-            if (updated) {
-                this.contacts = await plugin.contactManager.getAllContacts();
-            }
-        }
-
         const container = this.containerEl.children[1];
         container.empty();
         container.addClass('contacts-view');
@@ -75,54 +85,406 @@ export class ContactView extends ItemView {
         const title = headerRowDiv.createEl('h4', { text: 'Contacts' });
         title.style.margin = '0';
 
-        const newContactBtn = headerRowDiv.createEl('button', { text: 'New Contact' });
+        const actions = headerRowDiv.createDiv({ cls: 'contacts-header-actions' });
+        const layoutBtn = actions.createEl('button', { cls: 'clickable-icon contacts-layout-toggle' });
+        setIcon(layoutBtn, this.layout === 'table' ? 'layout-grid' : 'table');
+        layoutBtn.setAttr('aria-label', this.layout === 'table' ? 'Show as grid' : 'Show as table');
+        layoutBtn.onclick = () => this.setLayout(this.layout === 'table' ? 'grid' : 'table');
+
+        const dashboardBtn = actions.createEl('button', { cls: 'clickable-icon' });
+        setIcon(dashboardBtn, 'bar-chart-2');
+        dashboardBtn.setAttr('aria-label', 'Open dashboard');
+        dashboardBtn.onclick = () => this.actions.openDashboard();
+
+        const newContactBtn = actions.createEl('button', { text: 'New Contact' });
         newContactBtn.addClass('new-contact-btn');
-        newContactBtn.onclick = () => {
-            // @ts-ignore: plugin is available via window
-            const plugin = (window as any).app.plugins.plugins['obsidian-contacts'];
-            if (plugin) {
-                new plugin.NewContactModal(plugin.app, plugin).open();
-            }
+        newContactBtn.onclick = () => this.actions.create();
+
+        // The list on one side, the selected contact's details on the other
+        const body = container.createDiv({ cls: 'contacts-body' });
+        const main = body.createDiv({ cls: 'contacts-main' });
+        this.renderControls(main);
+        this.bulkEl = main.createDiv({ cls: 'contacts-bulk-bar' });
+        this.resultsEl = main.createDiv({ cls: 'contacts-results' });
+        this.detailPane = new ContactDetailPane(this.app, body.createDiv(), this, this.actions, {
+            select: contact => this.select(contact),
+            filterGroup: group => {
+                if (!this.viewState.groups.includes(group)) this.viewState.groups = [...this.viewState.groups, group];
+                this.stateChanged(true);
+            },
+            focusList: () => this.selectedEl?.focus(),
+        }, this.getCustomFields, this.getDateFormat);
+        this.renderContacts();
+        this.renderDetails();
+    }
+
+    private renderControls(container: Element) {
+        const controls = container.createDiv({ cls: 'contacts-controls' });
+        new SearchComponent(controls)
+            .setPlaceholder('Search contacts…')
+            .setValue(this.viewState.search)
+            .onChange(value => {
+                this.viewState.search = value;
+                this.stateChanged();
+            });
+        this.countEl = controls.createSpan({ cls: 'contacts-count' });
+        this.filtersEl = container.createDiv({ cls: 'contacts-filters' });
+        this.renderFilters();
+    }
+
+    private renderFilters() {
+        const filtersEl = this.filtersEl;
+        if (!filtersEl) return;
+        filtersEl.empty();
+
+        DUE_FILTERS.forEach(({ value, label }) => {
+            const chip = filtersEl.createEl('button', { text: label, cls: 'contacts-chip' });
+            chip.toggleClass('is-active', this.viewState.due === value);
+            chip.onclick = () => {
+                this.viewState.due = this.viewState.due === value ? '' : value;
+                this.stateChanged(true);
+            };
+        });
+
+        if (this.contacts.some(contact => contact.archived)) {
+            const archivedChip = filtersEl.createEl('button', { text: 'Show archived', cls: 'contacts-chip' });
+            archivedChip.toggleClass('is-active', this.viewState.showArchived);
+            archivedChip.onclick = () => {
+                this.viewState.showArchived = !this.viewState.showArchived;
+                this.stateChanged(true);
+            };
+        }
+
+        const customFilters = this.getCustomFields().filter(field => field.showInFilters);
+        const filters: ListFilter[] = [
+            {
+                label: 'Tag', prefix: '#', selected: this.viewState.tags,
+                set: tags => this.viewState.tags = tags,
+                values: this.contacts.reduce((all: string[], c) => all.concat(c.tags || []), []),
+            },
+            {
+                label: 'Group', prefix: 'Group: ', selected: this.viewState.groups,
+                set: groups => this.viewState.groups = groups,
+                values: this.contacts.reduce((all: string[], c) => all.concat(c.groups || []), []),
+            },
+            {
+                label: 'Company', prefix: '', selected: this.viewState.companies,
+                set: companies => this.viewState.companies = companies,
+                values: this.contacts.map(c => c.company || ''),
+            },
+            {
+                label: 'Frequency', prefix: '', selected: this.viewState.frequencies,
+                set: frequencies => this.viewState.frequencies = frequencies,
+                values: this.contacts.map(c => c.contact_frequency || ''),
+            },
+            ...customFilters.map((field): ListFilter => ({
+                label: field.label, prefix: `${field.label}: `, selected: this.viewState.custom[field.key] || [],
+                set: selected => this.viewState.custom = { ...this.viewState.custom, [field.key]: selected },
+                values: this.contacts.reduce((all: string[], c) => all.concat(customFilterValues(c, field.key)), []),
+            })),
+        ];
+        filters.forEach(filter => this.addFilterDropdown(filtersEl, filter));
+
+        filters.forEach(filter => filter.selected.forEach(value => {
+            const chip = filtersEl.createEl('button', { text: `${filter.prefix}${value} ×`, cls: 'contacts-chip is-active' });
+            chip.onclick = () => {
+                filter.set(filter.selected.filter(v => v !== value));
+                this.stateChanged(true);
+            };
+        }));
+    }
+
+    // A dropdown that adds one value to the selected list of a filter
+    private addFilterDropdown(containerEl: HTMLElement, filter: ListFilter) {
+        const options = Array.from(new Set(filter.values.filter(v => v && !filter.selected.includes(v))))
+            .sort((a, b) => a.localeCompare(b));
+        if (!options.length) return;
+        const dropdown = new DropdownComponent(containerEl).addOption('', `+ ${filter.label}`);
+        options.forEach(option => dropdown.addOption(option, option));
+        dropdown.setValue('').onChange(value => {
+            if (!value) return;
+            filter.set([...filter.selected, value]);
+            this.stateChanged(true);
+        });
+    }
+
+    /**
+     * Switch between table and grid for this view. The default comes from the
+     * settings; this only lasts until the setting changes or the view reopens.
+     */
+    setLayout(layout: 'table' | 'grid') {
+        this.layout = layout;
+        this.onOpen();
+    }
+
+    /**
+     * The contacts that pass the current search and filters, in view order.
+     */
+    getVisibleContacts(): Contact[] {
+        return sortContacts(
+            filterContacts(this.contacts, this.viewState),
+            this.viewState.sortKey,
+            this.viewState.sortDirection,
+        );
+    }
+
+    private renderContacts() {
+        const resultsEl = this.resultsEl;
+        if (!resultsEl) return;
+        resultsEl.empty();
+        this.selectedEl = null;
+
+        const visible = this.getVisibleContacts();
+        const total = this.viewState.showArchived ? this.contacts : this.contacts.filter(c => !c.archived);
+        this.countEl?.setText(`${visible.length} of ${total.length}`);
+
+        if (this.layout === 'grid') this.renderGrid(resultsEl, visible);
+        else this.renderTable(resultsEl, visible);
+        this.renderBulkBar();
+    }
+
+    // Actions for the ticked contacts, shown while any are ticked
+    private renderBulkBar() {
+        const bulkEl = this.bulkEl;
+        if (!bulkEl) return;
+        bulkEl.empty();
+        const checked = this.contacts.filter(contact => contact.path && this.checked.has(contact.path));
+        bulkEl.toggle(checked.length > 0);
+        if (!checked.length) return;
+
+        bulkEl.createSpan({ text: `${checked.length} selected`, cls: 'contacts-count' });
+        bulkEl.createEl('button', { text: 'Edit…' }).onclick = () => this.actions.bulkEdit(checked);
+        bulkEl.createEl('button', { text: 'Export…' }).onclick = event => {
+            new Menu()
+                .addItem(item => item.setTitle('vCard').setIcon('contact').onClick(() => this.actions.export(checked, 'vcard')))
+                .addItem(item => item.setTitle('CSV').setIcon('table').onClick(() => this.actions.export(checked, 'csv')))
+                .showAtMouseEvent(event);
         };
+        const active = checked.filter(contact => !contact.archived);
+        const archived = checked.filter(contact => contact.archived);
+        if (active.length) {
+            bulkEl.createEl('button', { text: `Archive ${active.length}` }).onclick = () => this.actions.archive(active);
+        }
+        if (archived.length) {
+            bulkEl.createEl('button', { text: `Restore ${archived.length}` }).onclick = () => this.actions.restore(archived);
+        }
+        const deleteBtn = bulkEl.createEl('button', { text: `Delete ${checked.length}`, cls: 'mod-warning' });
+        deleteBtn.onclick = () => this.actions.delete(checked);
 
-        const table = container.createEl('table');
+        const visible = this.getVisibleContacts();
+        if (visible.some(contact => contact.path && !this.checked.has(contact.path))) {
+            bulkEl.createEl('button', { text: `Select all ${visible.length}` }).onclick = () => this.setChecked(visible, true);
+        }
+        bulkEl.createEl('button', { text: 'Clear' }).onclick = () => {
+            this.checked.clear();
+            this.renderContacts();
+        };
+    }
+
+    private setChecked(contacts: Contact[], checked: boolean) {
+        contacts.forEach(contact => {
+            if (!contact.path) return;
+            if (checked) this.checked.add(contact.path);
+            else this.checked.delete(contact.path);
+        });
+        this.renderContacts();
+    }
+
+    // Shift-click ticks or unticks everything shown between this and the last clicked contact
+    private renderCheckbox(containerEl: HTMLElement, contact: Contact) {
+        const path = contact.path;
+        const checkbox = containerEl.createEl('input', { type: 'checkbox', cls: 'contacts-check' });
+        checkbox.checked = !!path && this.checked.has(path);
+        checkbox.setAttr('aria-label', `Select ${contact.name}`);
+        checkbox.addEventListener('dblclick', event => event.stopPropagation());
+        checkbox.addEventListener('click', event => {
+            // Ticking doesn't change which contact the detail pane shows
+            event.stopPropagation();
+            if (!path) return;
+            const visible = this.getVisibleContacts();
+            const from = visible.findIndex(c => c.path === this.lastCheckedPath);
+            const to = visible.indexOf(contact);
+            this.lastCheckedPath = path;
+            if (event.shiftKey && from !== -1 && to !== -1) {
+                this.setChecked(visible.slice(Math.min(from, to), Math.max(from, to) + 1), checkbox.checked);
+                return;
+            }
+            if (checkbox.checked) this.checked.add(path);
+            else this.checked.delete(path);
+            this.renderBulkBar();
+            this.updateCheckAll();
+        });
+    }
+
+    // The header checkbox ticks every contact that passes the filters
+    private renderCheckAll(containerEl: HTMLElement, contacts: Contact[]) {
+        const checkbox = containerEl.createEl('input', { type: 'checkbox', cls: 'contacts-check contacts-check-all' });
+        checkbox.setAttr('aria-label', 'Select all shown');
+        checkbox.addEventListener('click', () => {
+            const all = contacts.every(contact => contact.path && this.checked.has(contact.path));
+            this.setChecked(contacts, !all);
+        });
+        this.updateCheckAll();
+    }
+
+    private updateCheckAll() {
+        const checkbox = this.resultsEl?.querySelector<HTMLInputElement>('.contacts-check-all');
+        if (!checkbox) return;
+        const visible = this.getVisibleContacts();
+        const count = visible.filter(contact => contact.path && this.checked.has(contact.path)).length;
+        checkbox.checked = count > 0 && count === visible.length;
+        checkbox.indeterminate = count > 0 && count < visible.length;
+    }
+
+    private renderGrid(containerEl: HTMLElement, contacts: Contact[]) {
+        const grid = containerEl.createDiv({ cls: 'contacts-grid' });
+        contacts.forEach(contact => {
+            const card = grid.createDiv({ cls: 'contacts-card' });
+            if (contact.id === this.selectedId) card.addClass('is-selected');
+            card.toggleClass('is-archived', !!contact.archived);
+            this.renderCheckbox(card, contact);
+
+            renderAvatar(this.app, card, contact);
+            const info = card.createDiv({ cls: 'contacts-card-info' });
+            info.createDiv({ text: contact.name, cls: 'contacts-card-name' });
+            const role = [contact.title, contact.company].filter(v => v).join(' · ');
+            if (role) info.createDiv({ text: role, cls: 'contacts-card-role' });
+            if (contact.tags?.length) {
+                const tags = info.createDiv({ cls: 'contacts-card-tags' });
+                contact.tags.forEach(tag => tags.createSpan({ text: `#${tag}`, cls: 'contacts-card-tag' }));
+            }
+
+            if (contact.archived) {
+                card.createSpan({ text: 'Archived', cls: 'contacts-due-badge is-archived' });
+            } else {
+                const status = getDueStatus(contact);
+                card.createSpan({ text: DUE_STATUS_LABELS[status], cls: `contacts-due-badge is-${status}` });
+            }
+
+            this.bindContactEvents(card, contact, grid);
+        });
+    }
+
+    /*
+     * Click selects the contact and shows it in the detail pane; double-click
+     * or Enter also moves focus there. Up and down arrows move the selection
+     * and space ticks the contact for bulk actions.
+     */
+    private bindContactEvents(el: HTMLElement, contact: Contact, parentEl: HTMLElement) {
+        el.tabIndex = 0;
+        if (contact.id === this.selectedId) this.selectedEl = el;
+
+        el.addEventListener('click', () => {
+            parentEl.querySelectorAll('.is-selected').forEach(other => other.removeClass('is-selected'));
+            el.addClass('is-selected');
+            this.selectedId = contact.id || null;
+            this.selectedEl = el;
+            this.renderDetails();
+        });
+
+        el.addEventListener('dblclick', () => this.detailPane?.focus());
+
+        el.addEventListener('keydown', event => {
+            if (event.key === 'Enter') {
+                event.preventDefault();
+                if (this.selectedId !== contact.id) el.click();
+                this.detailPane?.focus();
+            } else if (event.key === ' ' && event.target === el) {
+                // Space ticks the contact for bulk actions
+                event.preventDefault();
+                el.querySelector<HTMLInputElement>('.contacts-check')?.click();
+            } else if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+                event.preventDefault();
+                const visible = this.getVisibleContacts();
+                const index = visible.indexOf(contact) + (event.key === 'ArrowDown' ? 1 : -1);
+                if (index >= 0 && index < visible.length) this.select(visible[index]);
+            }
+        });
+    }
+
+    /**
+     * Select a contact, show it in the detail pane and focus its row.
+     */
+    select(contact: Contact) {
+        this.selectedId = contact.id || null;
+        this.renderContacts();
+        this.renderDetails();
+        if (this.selectedEl) {
+            this.selectedEl.focus();
+            this.selectedEl.scrollIntoView({ block: 'nearest' });
+        }
+    }
+
+    private renderDetails() {
+        const contact = this.contacts.find(c => c.id === this.selectedId) || null;
+        this.detailPane?.show(contact, this.contacts);
+    }
+
+    private renderTable(containerEl: HTMLElement, contacts: Contact[]) {
+        const table = containerEl.createEl('table');
         const thead = table.createEl('thead');
         const headerRow = thead.createEl('tr');
+        this.renderCheckAll(headerRow.createEl('th', { cls: 'contacts-check-cell' }), contacts);
+
+        const columns = [
+            ...COLUMNS,
+            ...this.getCustomFields()
+                .filter(field => field.showInTable)
+                .map(field => ({
+                    key: `custom:${field.key}` as ContactSortKey,
+                    label: field.label,
+                    render: (c: Contact) => formatCustomValue(c.custom?.[field.key]),
+                })),
+        ];
 
-        // Create table headers
-        ['Name', 'Email', 'Phone', 'Last Contacted', 'Next Contact', 'Frequency'].forEach(header => {
-            headerRow.createEl('th', { text: header });
+        // Create table headers; clicking one sorts by it, clicking again flips the order
+        columns.forEach(column => {
+            const th = headerRow.createEl('th', { text: column.label, cls: 'contacts-sortable' });
+            if (this.viewState.sortKey === column.key) {
+                th.createSpan({ text: this.viewState.sortDirection === 'asc' ? ' ▲' : ' ▼' });
+            }
+            th.onclick = () => {
+                if (this.viewState.sortKey === column.key) {
+                    this.viewState.sortDirection = this.viewState.sortDirection === 'asc' ? 'desc' : 'asc';
+                } else {
+                    this.viewState.sortKey = column.key;
+                    this.viewState.sortDirection = 'asc';
+                }
+                this.stateChanged();
+            };
         });
 
         const tbody = table.createEl('tbody');
+        const dateFormat = this.getDateFormat();
 
         // Populate table with contacts
-        this.contacts.forEach(contact => {
+        contacts.forEach(contact => {
             const row = tbody.createEl('tr');
-            row.createEl('td', { text: contact.name });
-            row.createEl('td', { text: contact.email });
-            row.createEl('td', { text: contact.phone });
-            row.createEl('td', { text: formatDate(contact.last_contacted) || 'Never' });
-            row.createEl('td', { text: formatDate(contact.next_contact) || 'Not scheduled' });
-            row.createEl('td', { text: contact.contact_frequency || 'Not set' });
-
-            // Add double-click to edit contact
-            row.addEventListener('dblclick', () => {
-                // @ts-ignore: plugin is available via window
-                const plugin = (window as any).app.plugins.plugins['obsidian-contacts'];
-                if (plugin) {
-                    new plugin.NewContactModal(plugin.app, plugin, contact).open();
-                }
-            });
+            if (contact.id === this.selectedId) row.addClass('is-selected');
+            row.toggleClass('is-archived', !!contact.archived);
+            this.renderCheckbox(row.createEl('td', { cls: 'contacts-check-cell' }), contact);
+            columns.forEach(column => row.createEl('td', { text: column.render(contact, dateFormat) }));
+            this.bindContactEvents(row, contact, tbody);
         });
     }
 
+    private stateChanged(filtersChanged = false) {
+        if (filtersChanged) this.renderFilters();
+        this.renderContacts();
+        this.requestSaveState();
+    }
+
     async onClose() {
         this.containerEl.empty();
     }
 
     setContacts(contacts: Contact[]) {
         this.contacts = contacts;
+        // Archiving, restoring and deleting change or remove paths
+        const paths = new Set(contacts.map(contact => contact.path));
+        this.checked.forEach(path => {
+            if (!paths.has(path)) this.checked.delete(path);
+        });
         this.onOpen();
     }
 }
\ No newline at end of file
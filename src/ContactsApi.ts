@@ -0,0 +1,122 @@
+import { EventRef, Events, TFile } from 'obsidian';
+import { Contact, ContactSortKey, ContactsPluginSettings, DEFAULT_VIEW_STATE, DueFilter } from './types';
+import { ContactManager } from './ContactManager';
+import { filterContacts, sortContacts } from './contactFilters';
+import { calculateNextContact, resolveFrequency } from './frequency';
+import { nowTimestamp, toTimestamp } from './dates';
+
+/** Which contacts ContactsApi.getContacts returns; everything is optional */
+export interface ContactQuery {
+    /** Matched like the view's search box */
+    search?: string;
+    /** Contacts with all of these tags */
+    tags?: string[];
+    /** Contacts in any of these groups */
+    groups?: string[];
+    companies?: string[];
+    due?: DueFilter;
+    includeArchived?: boolean;
+    /** Name order by default */
+    sortKey?: ContactSortKey;
+    sortDirection?: 'asc' | 'desc';
+}
+
+/**
+ * The plugin's public API for scripts and other plugins, available as
+ * `app.plugins.plugins['friend-keeper'].api`:
+ *
+ *     const api = app.plugins.plugins['friend-keeper'].api;
+ *     const overdue = await api.getContacts({ due: 'overdue' });
+ *     const ref = api.on('changed', () => refresh());
+ *     // later: api.offref(ref)
+ *
+ * Contacts are plain objects; change them by passing an edited copy to
+ * updateContact. 'changed' fires after contacts were added, edited, moved or
+ * removed, whoever made the change.
+ */
+export class ContactsApi extends Events {
+    constructor(private contactManager: ContactManager, private getSettings: () => ContactsPluginSettings) {
+        super();
+    }
+
+    async getContacts(query: ContactQuery = {}): Promise<Contact[]> {
+        const contacts = await this.contactManager.getAllContacts(query.includeArchived);
+        const filtered = filterContacts(contacts, {
+            ...DEFAULT_VIEW_STATE,
+            search: query.search || '',
+            tags: query.tags || [],
+            groups: query.groups || [],
+            companies: query.companies || [],
+            frequencies: [],
+            custom: {},
+            due: query.due || '',
+            showArchived: !!query.includeArchived,
+        });
+        return sortContacts(filtered, query.sortKey || 'name', query.sortDirection || 'asc');
+    }
+
+    getContactById(id: string): Promise<Contact | null> {
+        return this.contactManager.getContactById(id);
+    }
+
+    /** The contact stored in the note at `path`, archived or not */
+    async getContactByPath(path: string): Promise<Contact | null> {
+        const contacts = await this.contactManager.getAllContacts(true);
+        return contacts.find(contact => contact.path === path) || null;
+    }
+
+    /**
+     * Create a contact note. `created` and `modified` are filled in, and
+     * next_contact too when there's a last contact and a frequency.
+     */
+    async createContact(contact: Partial<Contact> & { name: string }): Promise<Contact> {
+        const now = nowTimestamp();
+        const full: Contact = { ...contact, created: contact.created || now, modified: now };
+        if (full.last_contacted && !full.next_contact) full.next_contact = this.nextContactFor(full, full.last_contacted);
+        const file = await this.contactManager.createContact(full);
+        return this.reread(file);
+    }
+
+    /**
+     * Write a contact back to its note, found by id (or path for notes
+     * without one). Fields left undefined are removed from the note.
+     */
+    async updateContact(contact: Contact): Promise<Contact> {
+        await this.contactManager.updateContact({ ...contact, modified: nowTimestamp() });
+        const file = await this.contactManager.getContactFile(contact);
+        if (!file) throw new Error('Contact file not found');
+        return this.reread(file);
+    }
+
+    /**
+     * Record contact at `date`, now by default, and schedule the next one
+     * from the contact's frequency or its tag default.
+     */
+    markContacted(contact: Contact, date: Date = new Date()): Promise<Contact> {
+        const contactedAt = toTimestamp(date);
+        return this.updateContact({
+            ...contact,
+            last_contacted: contactedAt,
+            next_contact: this.nextContactFor(contact, contactedAt),
+        });
+    }
+
+    /**
+     * Next contact date after `lastContacted`, or undefined when the contact
+     * has no frequency of its own or from its tags.
+     */
+    nextContactFor(contact: Partial<Contact>, lastContacted: string): string | undefined {
+        const frequency = resolveFrequency(contact, this.getSettings().tagFrequencies);
+        return frequency ? calculateNextContact(lastContacted, frequency) : undefined;
+    }
+
+    on(name: 'changed', callback: () => unknown, ctx?: unknown): EventRef {
+        return super.on(name, callback, ctx);
+    }
+
+    private async reread(file: TFile): Promise<Contact> {
+        const contact = await this.contactManager.getContactFromFile(file);
+        if (!contact) throw new Error(`${file.path} is not a contact`);
+        return contact;
+    }
+}
@@ -0,0 +1,64 @@
+import { App, Modal, Setting } from 'obsidian';
+import { CSV_EXPORT_FIELDS } from './csv';
+
+export type CsvExportScope = 'all' | 'filtered';
+
+export class CsvExportModal extends Modal {
+    private exportScope: CsvExportScope;
+    private fields = new Set(CSV_EXPORT_FIELDS.map(field => field.key));
+
+    constructor(
+        app: App,
+        private counts: { all: number; filtered: number | null },
+        private onExport: (scope: CsvExportScope, fields: string[]) => void,
+    ) {
+        super(app);
+        this.exportScope = counts.filtered !== null && counts.filtered < counts.all ? 'filtered' : 'all';
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: 'Export CSV' });
+
+        new Setting(contentEl)
+            .setName('Contacts')
+            .addDropdown(dropdown => {
+                dropdown.addOption('all', `All contacts (${this.counts.all})`);
+                if (this.counts.filtered !== null) {
+                    dropdown.addOption('filtered', `Shown in the contacts view (${this.counts.filtered})`);
+                }
+                dropdown
+                    .setValue(this.exportScope)
+                    .onChange(value => this.exportScope = value as CsvExportScope);
+            });
+
+        contentEl.createEl('h4', { text: 'Columns' });
+        const list = contentEl.createDiv({ cls: 'contacts-export-list' });
+        CSV_EXPORT_FIELDS.forEach(field => {
+            new Setting(list)
+                .setName(field.label)
+                .addToggle(toggle => toggle
+                    .setValue(this.fields.has(field.key))
+                    .onChange(value => {
+                        if (value) this.fields.add(field.key);
+                        else this.fields.delete(field.key);
+                    }));
+        });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Export')
+                .setCta()
+                .onClick(() => {
+                    if (!this.fields.size) return;
+                    this.close();
+                    this.onExport(this.exportScope, CSV_EXPORT_FIELDS.map(f => f.key).filter(key => this.fields.has(key)));
+                }));
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
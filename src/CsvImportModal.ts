@@ -0,0 +1,139 @@
+import { App, Modal, Setting } from 'obsidian';
+import { CSV_FIELDS, CsvField, CsvRecord, CsvRowResult, csvRowsToContacts, guessCsvMapping } from './csv';
+import { primaryEmail, primaryPhone } from './contactDetails';
+import { nowTimestamp } from './dates';
+
+export type ExistingContactPolicy = 'skip' | 'overwrite' | 'merge';
+
+export interface CsvImportReport {
+    created: number;
+    updated: number;
+    skipped: number;
+    failed: { row: number; errors: string[] }[];
+}
+
+const PREVIEW_ROWS = 5;
+
+export class CsvImportModal extends Modal {
+    private mapping: (CsvField | '')[];
+    private policy: ExistingContactPolicy = 'skip';
+    private previewEl: HTMLElement | null = null;
+    private report: CsvImportReport | null = null;
+
+    constructor(
+        app: App,
+        private fileName: string,
+        private headers: string[],
+        private rows: CsvRecord[],
+        private defaultCountryCode: string,
+        private onImport: (results: CsvRowResult[], policy: ExistingContactPolicy) => Promise<CsvImportReport>,
+    ) {
+        super(app);
+        this.mapping = guessCsvMapping(headers);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('contacts-csv-modal');
+        if (this.report) {
+            this.renderReport(this.report);
+            return;
+        }
+
+        contentEl.createEl('h2', { text: `Import ${this.fileName}` });
+        contentEl.createEl('h4', { text: 'Columns' });
+        this.headers.forEach((header, column) => {
+            const sample = this.rows.map(row => row.cells[column]).find(value => value && value.trim());
+            new Setting(contentEl)
+                .setName(header || `Column ${column + 1}`)
+                .setDesc(sample ? `e.g. ${sample}` : 'Empty')
+                .addDropdown(dropdown => {
+                    dropdown.addOption('', 'Ignore');
+                    CSV_FIELDS.forEach(field => dropdown.addOption(field.key, field.label));
+                    dropdown
+                        .setValue(this.mapping[column])
+                        .onChange(value => {
+                            this.mapping[column] = value as CsvField | '';
+                            this.renderPreview();
+                        });
+                });
+        });
+
+        new Setting(contentEl)
+            .setName('Existing contacts')
+            .setDesc('Rows are matched to contacts by ID, then email, then name')
+            .addDropdown(dropdown => dropdown
+                .addOption('skip', 'Skip')
+                .addOption('overwrite', 'Overwrite the columns imported')
+                .addOption('merge', 'Merge, filling in blanks and adding to lists')
+                .setValue(this.policy)
+                .onChange(value => this.policy = value as ExistingContactPolicy));
+
+        this.previewEl = contentEl.createDiv();
+        this.renderPreview();
+    }
+
+    private results(): CsvRowResult[] {
+        return csvRowsToContacts(this.rows, this.mapping, nowTimestamp(), this.defaultCountryCode);
+    }
+
+    private renderPreview() {
+        const previewEl = this.previewEl;
+        if (!previewEl) return;
+        previewEl.empty();
+        const results = this.results();
+        const valid = results.filter(result => result.contact).length;
+
+        previewEl.createEl('h4', { text: 'Preview' });
+        const table = previewEl.createEl('table', { cls: 'contacts-csv-preview' });
+        const header = table.createEl('thead').createEl('tr');
+        ['Row', 'Name', 'Email', 'Phone', 'Status'].forEach(label => header.createEl('th', { text: label }));
+        const tbody = table.createEl('tbody');
+        results.slice(0, PREVIEW_ROWS).forEach(result => {
+            const row = tbody.createEl('tr');
+            row.createEl('td', { text: String(result.row) });
+            row.createEl('td', { text: result.contact?.name || '' });
+            row.createEl('td', { text: result.contact ? primaryEmail(result.contact) : '' });
+            row.createEl('td', { text: result.contact ? primaryPhone(result.contact) : '' });
+            const status = row.createEl('td', { text: result.errors.length ? result.errors.join('; ') : 'OK' });
+            if (result.errors.length) status.addClass('contacts-csv-error');
+        });
+
+        previewEl.createEl('p', {
+            text: `${valid} of ${results.length} rows ready to import${valid < results.length ? `, ${results.length - valid} with errors will be skipped` : ''}.`,
+        });
+
+        new Setting(previewEl)
+            .addButton(button => button
+                .setButtonText(`Import ${valid} contacts`)
+                .setCta()
+                .setDisabled(!valid)
+                .onClick(async () => {
+                    button.setDisabled(true);
+                    this.report = await this.onImport(results, this.policy);
+                    this.onOpen();
+                }));
+    }
+
+    private renderReport(report: CsvImportReport) {
+        const { contentEl } = this;
+        contentEl.createEl('h2', { text: 'Import finished' });
+        contentEl.createEl('p', {
+            text: `${report.created} created, ${report.updated} updated, ${report.skipped} skipped, ${report.failed.length} failed.`,
+        });
+        if (report.failed.length) {
+            const list = contentEl.createEl('ul', { cls: 'contacts-csv-errors' });
+            report.failed.forEach(failure => list.createEl('li', { text: `Row ${failure.row}: ${failure.errors.join('; ')}` }));
+        }
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Close')
+                .onClick(() => this.close()));
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
@@ -0,0 +1,193 @@
+import { ItemView, moment, WorkspaceLeaf } from 'obsidian';
+import { Contact } from './types';
+import { ContactsApi } from './ContactsApi';
+import { Breakdown, Bucket, DashboardStats, getDashboardStats } from './dashboard';
+import { DUE_STATUS_LABELS } from './contactDisplay';
+import { DueStatus } from './contactFilters';
+
+export const DASHBOARD_VIEW_TYPE = 'contacts-dashboard';
+
+const STATUS_ORDER: DueStatus[] = ['scheduled', 'due-soon', 'overdue', 'unscheduled'];
+const MAX_BREAKDOWN_ROWS = 8;
+
+/**
+ * How well contacts are being kept up with: on-track share, interactions
+ * over time, who's been neglected, breakdowns and the week ahead. Redraws
+ * whenever contacts change.
+ */
+export class DashboardView extends ItemView {
+    private period: 'week' | 'month' = 'week';
+    private stats: DashboardStats | null = null;
+
+    constructor(
+        leaf: WorkspaceLeaf,
+        private api: ContactsApi,
+        private openContact: (contact: Contact) => void,
+    ) {
+        super(leaf);
+    }
+
+    getViewType(): string {
+        return DASHBOARD_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return 'Contacts dashboard';
+    }
+
+    getIcon(): string {
+        return 'bar-chart-2';
+    }
+
+    async onOpen() {
+        this.registerEvent(this.api.on('changed', () => this.refresh()));
+        await this.refresh();
+    }
+
+    async refresh() {
+        this.stats = getDashboardStats(await this.api.getContacts());
+        this.render();
+    }
+
+    private render() {
+        const stats = this.stats;
+        const container = this.containerEl.children[1];
+        container.empty();
+        container.addClass('contacts-dashboard');
+        container.createEl('h4', { text: 'Contacts dashboard' });
+        if (!stats) return;
+        if (!stats.total) {
+            container.createEl('p', { text: 'No contacts yet.', cls: 'contacts-timeline-empty' });
+            return;
+        }
+
+        const grid = container.createDiv({ cls: 'contacts-dashboard-grid' });
+        this.renderStatus(this.panel(grid, 'On track'), stats);
+        this.renderInteractions(this.panel(grid, 'Interactions'), stats);
+        this.renderWeekAhead(this.panel(grid, 'Week ahead', 'is-wide'), stats);
+        this.renderNeglected(this.panel(grid, 'Longest without contact'), stats);
+        this.renderBreakdown(this.panel(grid, 'By tag'), stats.byTag);
+        this.renderBreakdown(this.panel(grid, 'By company'), stats.byCompany);
+        this.renderBreakdown(this.panel(grid, 'By frequency'), stats.byFrequency);
+    }
+
+    private panel(containerEl: HTMLElement, title: string, cls?: string): HTMLElement {
+        const panel = containerEl.createDiv({ cls: ['contacts-dashboard-panel', ...(cls ? [cls] : [])] });
+        panel.createEl('h5', { text: title });
+        return panel;
+    }
+
+    // A single stacked bar of the due statuses, with a legend
+    private renderStatus(panel: HTMLElement, stats: DashboardStats) {
+        const onTrack = stats.status['scheduled'] + stats.status['due-soon'];
+        panel.createDiv({ text: `${Math.round(onTrack / stats.total * 100)}%`, cls: 'contacts-dashboard-figure' });
+        panel.createDiv({ text: `${stats.status['overdue']} overdue of ${stats.total}`, cls: 'contacts-card-role' });
+
+        const svg = panel.createSvg('svg', { cls: 'contacts-dashboard-bar', attr: { viewBox: '0 0 100 8', preserveAspectRatio: 'none' } });
+        let x = 0;
+        STATUS_ORDER.forEach(status => {
+            const width = stats.status[status] / stats.total * 100;
+            if (!width) return;
+            svg.createSvg('rect', { cls: `is-${status}`, attr: { x, y: 0, width, height: 8 } })
+                .createSvg('title').textContent = `${DUE_STATUS_LABELS[status]}: ${stats.status[status]}`;
+            x += width;
+        });
+
+        const legend = panel.createDiv({ cls: 'contacts-dashboard-legend' });
+        STATUS_ORDER.forEach(status => {
+            const item = legend.createSpan();
+            item.createSpan({ cls: `contacts-dashboard-swatch is-${status}` });
+            item.appendText(`${DUE_STATUS_LABELS[status]} ${stats.status[status]}`);
+        });
+    }
+
+    private renderInteractions(panel: HTMLElement, stats: DashboardStats) {
+        const toggle = panel.createDiv({ cls: 'contacts-dashboard-toggle' });
+        (['week', 'month'] as const).forEach(period => {
+            const button = toggle.createEl('button', { text: `Per ${period}`, cls: 'contacts-chip' });
+            button.toggleClass('is-active', this.period === period);
+            button.onclick = () => {
+                this.period = period;
+                this.render();
+            };
+        });
+
+        const buckets = this.period === 'week' ? stats.perWeek : stats.perMonth;
+        const format = this.period === 'week' ? 'D MMM' : 'MMM';
+        this.renderColumns(panel, buckets, bucket => moment(bucket.start).format(format));
+    }
+
+    // Column chart scaled to the largest bucket, labelled at both ends
+    private renderColumns(panel: HTMLElement, buckets: Bucket[], label: (bucket: Bucket) => string) {
+        const max = Math.max(1, ...buckets.map(bucket => bucket.count));
+        const width = 100 / buckets.length;
+        const svg = panel.createSvg('svg', { cls: 'contacts-dashboard-columns', attr: { viewBox: '0 0 100 40', preserveAspectRatio: 'none' } });
+        buckets.forEach((bucket, i) => {
+            const height = bucket.count / max * 40;
+            svg.createSvg('rect', { attr: { x: i * width + width * 0.15, y: 40 - height, width: width * 0.7, height } })
+                .createSvg('title').textContent = `${label(bucket)}: ${bucket.count}`;
+        });
+        const axis = panel.createDiv({ cls: 'contacts-dashboard-axis' });
+        axis.createSpan({ text: label(buckets[0]) });
+        axis.createSpan({ text: `${buckets.reduce((sum, bucket) => sum + bucket.count, 0)} total, max ${max}` });
+        axis.createSpan({ text: label(buckets[buckets.length - 1]) });
+    }
+
+    private renderNeglected(panel: HTMLElement, stats: DashboardStats) {
+        const list = panel.createEl('ul', { cls: 'contacts-upcoming-dates' });
+        stats.neglected.forEach(({ contact, days }) => {
+            const item = list.createEl('li');
+            this.contactLink(item, contact);
+            item.createSpan({
+                text: days === null ? 'never' : days === 0 ? 'today' : `${days} days`,
+                cls: 'contacts-timeline-date',
+            });
+        });
+    }
+
+    private renderBreakdown(panel: HTMLElement, rows: Breakdown[]) {
+        if (!rows.length) {
+            panel.createEl('p', { text: 'Nothing to show.', cls: 'contacts-timeline-empty' });
+            return;
+        }
+        const max = rows[0].total;
+        const table = panel.createEl('table', { cls: 'contacts-dashboard-breakdown' });
+        rows.slice(0, MAX_BREAKDOWN_ROWS).forEach(row => {
+            const tr = table.createEl('tr');
+            tr.createEl('td', { text: row.label });
+            // Bar length is the group's size; the red part is how many are overdue
+            const bar = tr.createEl('td').createDiv({ cls: 'contacts-dashboard-meter' });
+            bar.style.width = `${row.total / max * 100}%`;
+            bar.createDiv({ cls: 'is-overdue' }).style.width = `${row.overdue / row.total * 100}%`;
+            tr.createEl('td', { text: row.overdue ? `${row.total} (${row.overdue} overdue)` : String(row.total) });
+        });
+        if (rows.length > MAX_BREAKDOWN_ROWS) {
+            panel.createEl('p', { text: `and ${rows.length - MAX_BREAKDOWN_ROWS} more`, cls: 'contacts-timeline-empty' });
+        }
+    }
+
+    private renderWeekAhead(panel: HTMLElement, stats: DashboardStats) {
+        const week = panel.createDiv({ cls: 'contacts-dashboard-week' });
+        stats.weekAhead.forEach((day, i) => {
+            const column = week.createDiv({ cls: 'contacts-dashboard-day' });
+            column.createDiv({
+                text: i === 0 ? 'Today' : moment(day.date).format('ddd D'),
+                cls: 'contacts-dashboard-day-name',
+            });
+            if (!day.contacts.length) column.createDiv({ text: '—', cls: 'contacts-timeline-empty' });
+            day.contacts.forEach(contact => this.contactLink(column.createDiv(), contact));
+        });
+    }
+
+    private contactLink(containerEl: HTMLElement, contact: Contact) {
+        const link = containerEl.createEl('a', { text: contact.name, cls: 'internal-link' });
+        link.onclick = event => {
+            event.preventDefault();
+            this.openContact(contact);
+        };
+    }
+
+    async onClose() {
+        this.containerEl.empty();
+    }
+}
@@ -0,0 +1,37 @@
+import { App, Modal, Setting } from 'obsidian';
+import { Contact } from './types';
+import { DuplicatePair } from './duplicates';
+
+export class DuplicateContactsModal extends Modal {
+    constructor(app: App, private pairs: DuplicatePair[], private onReview: (a: Contact, b: Contact) => void) {
+        super(app);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: 'Duplicate contacts' });
+
+        if (!this.pairs.length) {
+            contentEl.createEl('p', { text: 'No likely duplicates found.' });
+            return;
+        }
+
+        this.pairs.forEach(pair => {
+            new Setting(contentEl)
+                .setName(`${pair.a.name} ↔ ${pair.b.name}`)
+                .setDesc(`${pair.reasons.join(', ')} · ${pair.a.path} · ${pair.b.path}`)
+                .addButton(button => button
+                    .setButtonText('Merge…')
+                    .onClick(() => {
+                        this.close();
+                        this.onReview(pair.a, pair.b);
+                    }));
+        });
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
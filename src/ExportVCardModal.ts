@@ -0,0 +1,58 @@
+import { App, Modal, Setting } from 'obsidian';
+import { Contact } from './types';
+import { primaryEmail, primaryPhone } from './contactDetails';
+
+export class ExportVCardModal extends Modal {
+    private selected: Set<Contact>;
+
+    constructor(app: App, private contacts: Contact[], private onExport: (contacts: Contact[]) => void) {
+        super(app);
+        this.selected = new Set(contacts);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: 'Export vCard' });
+
+        new Setting(contentEl)
+            .setName('Select all')
+            .addToggle(toggle => toggle
+                .setValue(this.selected.size === this.contacts.length)
+                .onChange(value => {
+                    this.selected = new Set(value ? this.contacts : []);
+                    this.onOpen();
+                }));
+
+        const list = contentEl.createDiv({ cls: 'contacts-export-list' });
+        [...this.contacts]
+            .sort((a, b) => a.name.localeCompare(b.name))
+            .forEach(contact => {
+                new Setting(list)
+                    .setName(contact.name)
+                    .setDesc([primaryEmail(contact), primaryPhone(contact)].filter(v => v).join(' · '))
+                    .addToggle(toggle => toggle
+                        .setValue(this.selected.has(contact))
+                        .onChange(value => {
+                            if (value) this.selected.add(contact);
+                            else this.selected.delete(contact);
+                        }));
+            });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Export')
+                .setCta()
+                .onClick(() => {
+                    const contacts = this.contacts.filter(c => this.selected.has(c));
+                    if (!contacts.length) return;
+                    this.close();
+                    this.onExport(contacts);
+                }));
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
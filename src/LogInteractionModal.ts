@@ -0,0 +1,60 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { Contact, Interaction, INTERACTION_CHANNELS, InteractionChannel } from './types';
+import { toLocalDateTime } from './dates';
+
+export class LogInteractionModal extends Modal {
+    private interaction: Interaction = { date: toLocalDateTime(new Date()), channel: 'call', summary: '' };
+
+    constructor(app: App, private contact: Contact, private onSubmit: (interaction: Interaction) => Promise<void>) {
+        super(app);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: `Log interaction with ${this.contact.name}` });
+
+        new Setting(contentEl)
+            .setName('Date')
+            .addText(text => {
+                text.inputEl.type = 'datetime-local';
+                text.setValue(this.interaction.date)
+                    .onChange(value => this.interaction.date = value);
+            });
+
+        new Setting(contentEl)
+            .setName('Channel')
+            .addDropdown(dropdown => {
+                INTERACTION_CHANNELS.forEach(channel => {
+                    dropdown.addOption(channel, channel.charAt(0).toUpperCase() + channel.slice(1));
+                });
+                dropdown
+                    .setValue(this.interaction.channel || 'call')
+                    .onChange(value => this.interaction.channel = value as InteractionChannel);
+            });
+
+        new Setting(contentEl)
+            .setName('Summary')
+            .addTextArea(text => text
+                .setPlaceholder('What did you talk about?')
+                .onChange(value => this.interaction.summary = value));
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Log')
+                .setCta()
+                .onClick(async () => {
+                    if (!/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/.test(this.interaction.date)) {
+                        new Notice('Please enter a valid date');
+                        return;
+                    }
+                    await this.onSubmit(this.interaction);
+                    this.close();
+                }));
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
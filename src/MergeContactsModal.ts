@@ -0,0 +1,89 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { Contact } from './types';
+import { MERGE_FIELDS, MergeField, mergeContactFields } from './duplicates';
+import { nowTimestamp } from './dates';
+
+export type MergeRemoval = 'archive' | 'delete';
+
+export class MergeContactsModal extends Modal {
+    private picks: Partial<Record<MergeField, 'keep' | 'other'>> = {};
+    private removal: MergeRemoval = 'archive';
+
+    constructor(
+        app: App,
+        private keep: Contact,
+        private other: Contact,
+        private defaultCountryCode: string,
+        private onMerge: (keep: Contact, other: Contact, merged: Contact, removal: MergeRemoval) => Promise<void>,
+    ) {
+        super(app);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: 'Merge contacts' });
+
+        new Setting(contentEl)
+            .setName('Keep')
+            .setDesc('The note that stays; the other one is merged into it')
+            .addDropdown(dropdown => dropdown
+                .addOption('keep', `${this.keep.name} (${this.keep.path})`)
+                .addOption('other', `${this.other.name} (${this.other.path})`)
+                .setValue('keep')
+                .onChange(value => {
+                    if (value !== 'other') return;
+                    [this.keep, this.other] = [this.other, this.keep];
+                    this.picks = {};
+                    this.onOpen();
+                }));
+
+        const conflicts = MERGE_FIELDS.filter(({ key }) => this.keep[key] && this.other[key] && this.keep[key] !== this.other[key]);
+        if (conflicts.length) contentEl.createEl('h4', { text: 'Conflicting values' });
+        conflicts.forEach(({ key, label }) => {
+            new Setting(contentEl)
+                .setName(label)
+                .addDropdown(dropdown => dropdown
+                    .addOption('keep', this.keep[key] as string)
+                    .addOption('other', this.other[key] as string)
+                    .setValue(this.picks[key] || 'keep')
+                    .onChange(value => this.picks[key] = value as 'keep' | 'other'));
+        });
+
+        contentEl.createEl('p', {
+            text: 'Emails, phones, addresses, links, dates, tags, groups and relationships from both are combined. '
+                + 'The interaction logs are merged and the other note\'s text is appended. Links to the other note are pointed at the one kept.',
+            cls: 'setting-item-description',
+        });
+
+        new Setting(contentEl)
+            .setName('Afterwards')
+            .addDropdown(dropdown => dropdown
+                .addOption('archive', `Archive ${this.other.name}`)
+                .addOption('delete', `Delete ${this.other.name}`)
+                .setValue(this.removal)
+                .onChange(value => this.removal = value as MergeRemoval));
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Merge')
+                .setCta()
+                .onClick(async () => {
+                    button.setDisabled(true);
+                    const merged = mergeContactFields(this.keep, this.other, this.picks, this.defaultCountryCode);
+                    try {
+                        await this.onMerge(this.keep, this.other, { ...merged, modified: nowTimestamp() }, this.removal);
+                        this.close();
+                    } catch (error) {
+                        console.error('Error merging contacts:', error);
+                        new Notice(`Could not merge contacts: ${error instanceof Error ? error.message : error}`);
+                        button.setDisabled(false);
+                    }
+                }));
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
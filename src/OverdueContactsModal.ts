@@ -0,0 +1,103 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { Contact } from './types';
+import { DueContacts } from './reminders';
+import { describeUpcomingDate } from './birthdays';
+import { formatDisplayDate, parseDate } from './dates';
+
+const COMPLETE_DATE_REGEX = /^[1-9]\d{3}-\d{2}-\d{2}$/;
+
+export interface ReminderActions {
+    markContacted(contact: Contact): Promise<void>;
+    snooze(contact: Contact, days: number): Promise<void>;
+    reschedule(contact: Contact, date: string): Promise<void>;
+    /** Re-check reminders after an action and return the new lists */
+    refresh(): Promise<DueContacts>;
+}
+
+export class OverdueContactsModal extends Modal {
+    constructor(app: App, private due: DueContacts, private actions: ReminderActions, private dateFormat: string) {
+        super(app);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('contacts-overdue-modal');
+        contentEl.createEl('h2', { text: 'Overdue contacts' });
+
+        if (!this.due.overdue.length && !this.due.upcoming.length && !this.due.dates.length) {
+            contentEl.createEl('p', { text: 'You are all caught up.' });
+            return;
+        }
+
+        this.renderSection('Overdue', this.due.overdue);
+        this.renderSection('Due soon', this.due.upcoming);
+
+        if (this.due.dates.length) {
+            contentEl.createEl('h4', { text: 'Upcoming dates' });
+            this.due.dates.forEach(upcoming => {
+                new Setting(contentEl)
+                    .setName(upcoming.contact.name)
+                    .setDesc(describeUpcomingDate(upcoming))
+                    .addButton(button => button
+                        .setButtonText('Contacted')
+                        .onClick(() => this.run(() => this.actions.markContacted(upcoming.contact))));
+            });
+        }
+    }
+
+    private renderSection(heading: string, contacts: Contact[]) {
+        if (!contacts.length) return;
+        this.contentEl.createEl('h4', { text: heading });
+
+        contacts.forEach(contact => {
+            let dateInput: HTMLInputElement | null = null;
+            new Setting(this.contentEl)
+                .setName(contact.name)
+                .setDesc(`Due ${formatDisplayDate(contact.next_contact, this.dateFormat)}`)
+                .addButton(button => button
+                    .setButtonText('Contacted')
+                    .onClick(() => this.run(() => this.actions.markContacted(contact))))
+                .addDropdown(dropdown => dropdown
+                    .addOption('', 'Snooze…')
+                    .addOption('1', '1 day')
+                    .addOption('3', '3 days')
+                    .addOption('7', '1 week')
+                    .onChange(value => {
+                        if (value) this.run(() => this.actions.snooze(contact, Number(value)));
+                    }))
+                .addText(text => {
+                    text.inputEl.type = 'date';
+                    text.inputEl.title = 'New due date';
+                    dateInput = text.inputEl;
+                })
+                .addButton(button => button
+                    .setButtonText('Reschedule')
+                    .onClick(() => {
+                        // Only once the date is complete; a partly typed year would still parse
+                        const value = dateInput?.value || '';
+                        if (!COMPLETE_DATE_REGEX.test(value) || !parseDate(value)) {
+                            new Notice('Please enter a complete date');
+                            return;
+                        }
+                        this.run(() => this.actions.reschedule(contact, value));
+                    }));
+        });
+    }
+
+    private async run(action: () => Promise<void>) {
+        try {
+            await action();
+            this.due = await this.actions.refresh();
+        } catch (error) {
+            console.error('Error updating overdue contact:', error);
+            new Notice(`Could not update contact: ${error instanceof Error ? error.message : error}`);
+        }
+        this.onOpen();
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
@@ -0,0 +1,46 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+
+/** Paste an email signature or other contact details to create a contact from */
+export class QuickCaptureModal extends Modal {
+    private text = '';
+
+    constructor(app: App, private onSubmit: (text: string) => void) {
+        super(app);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: 'Quick capture contact' });
+        contentEl.createEl('p', {
+            text: 'Paste an email signature or contact details. Name, email, phone, title and company are picked out for you to check before saving.',
+            cls: 'setting-item-description',
+        });
+
+        new Setting(contentEl)
+            .setClass('contacts-quick-capture')
+            .addTextArea(text => {
+                text.setPlaceholder('Jane Doe\nHead of Sales, Acme Inc.\njane@acme.com\n+1 555 123 4567')
+                    .onChange(value => this.text = value);
+                text.inputEl.rows = 8;
+            });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Continue')
+                .setCta()
+                .onClick(() => {
+                    if (!this.text.trim()) {
+                        new Notice('Please paste some contact details');
+                        return;
+                    }
+                    this.close();
+                    this.onSubmit(this.text);
+                }));
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
@@ -0,0 +1,32 @@
+import { App, Modal } from 'obsidian';
+import { describeUpcomingDate, UpcomingDate } from './birthdays';
+
+export class UpcomingDatesModal extends Modal {
+    constructor(app: App, private dates: UpcomingDate[], private days: number) {
+        super(app);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: 'Upcoming birthdays' });
+
+        if (!this.dates.length) {
+            contentEl.createEl('p', { text: `No birthdays or important dates in the next ${this.days} days.` });
+            return;
+        }
+
+        const list = contentEl.createEl('ul', { cls: 'contacts-upcoming-dates' });
+        this.dates.forEach(upcoming => {
+            const item = list.createEl('li');
+            item.createSpan({ text: upcoming.date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' }), cls: 'contacts-upcoming-date' });
+            item.createSpan({ text: upcoming.contact.name, cls: 'contacts-upcoming-name' });
+            item.createSpan({ text: describeUpcomingDate(upcoming), cls: 'contacts-upcoming-desc' });
+        });
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
@@ -0,0 +1,113 @@
+import { Contact } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface MonthDay {
+    year?: number;
+    month: number;
+    day: number;
+}
+
+export interface UpcomingDate {
+    contact: Contact;
+    /** "Birthday" or the important date's label */
+    label: string;
+    date: Date;
+    daysUntil: number;
+    /** Years since the original date on this occurrence, when the year is known */
+    years?: number;
+}
+
+/**
+ * Parse YYYY-MM-DD, or --MM-DD for dates without a year.
+ */
+export function parseMonthDay(value?: string): MonthDay | null {
+    if (!value) return null;
+    const match = value.trim().match(/^(?:(\d{4})|-)-(\d{2})-(\d{2})$/);
+    if (!match) return null;
+    const month = Number(match[2]);
+    const day = Number(match[3]);
+    if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+    return { year: match[1] ? Number(match[1]) : undefined, month, day };
+}
+
+function startOfDay(date: Date): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+// Feb 29 falls on Feb 28 in non-leap years
+function occurrenceIn(year: number, date: MonthDay): Date {
+    const daysInMonth = new Date(year, date.month, 0).getDate();
+    return new Date(year, date.month - 1, Math.min(date.day, daysInMonth));
+}
+
+/**
+ * The next yearly occurrence on or after today.
+ */
+export function nextOccurrence(date: MonthDay, now: Date = new Date()): Date {
+    const today = startOfDay(now);
+    const thisYear = occurrenceIn(today.getFullYear(), date);
+    return thisYear.getTime() >= today.getTime() ? thisYear : occurrenceIn(today.getFullYear() + 1, date);
+}
+
+export function daysUntil(date: Date, now: Date = new Date()): number {
+    return Math.round((startOfDay(date).getTime() - startOfDay(now).getTime()) / DAY_MS);
+}
+
+/**
+ * Completed years since the date, e.g. a person's current age.
+ */
+export function yearsSince(date: MonthDay, now: Date = new Date()): number | undefined {
+    if (date.year === undefined) return undefined;
+    const today = startOfDay(now);
+    const passed = occurrenceIn(today.getFullYear(), date).getTime() <= today.getTime();
+    return today.getFullYear() - date.year - (passed ? 0 : 1);
+}
+
+/**
+ * Birthdays and important dates of all contacts falling within the next
+ * `days` days (today included), soonest first.
+ */
+export function getUpcomingDates(contacts: Contact[], days: number, now: Date = new Date()): UpcomingDate[] {
+    const upcoming: UpcomingDate[] = [];
+
+    for (const contact of contacts) {
+        const dates = [
+            { label: 'Birthday', date: contact.birthday },
+            ...(contact.important_dates || []),
+        ];
+        for (const { label, date } of dates) {
+            const parsed = parseMonthDay(date);
+            if (!parsed) continue;
+            const occurrence = nextOccurrence(parsed, now);
+            const until = daysUntil(occurrence, now);
+            if (until > days) continue;
+            upcoming.push({
+                contact,
+                label,
+                date: occurrence,
+                daysUntil: until,
+                years: parsed.year !== undefined ? occurrence.getFullYear() - parsed.year : undefined,
+            });
+        }
+    }
+
+    return upcoming.sort((a, b) => a.daysUntil - b.daysUntil || a.contact.name.localeCompare(b.contact.name));
+}
+
+export function describeDaysUntil(days: number): string {
+    if (days === 0) return 'today';
+    if (days === 1) return 'tomorrow';
+    return `in ${days} days`;
+}
+
+/**
+ * Short summary for display, e.g. "Birthday: turns 35 in 5 days".
+ */
+export function describeUpcomingDate(upcoming: UpcomingDate): string {
+    const when = describeDaysUntil(upcoming.daysUntil);
+    if (upcoming.years === undefined) return `${upcoming.label} ${when}`;
+    return upcoming.label === 'Birthday'
+        ? `Birthday: turns ${upcoming.years} ${when}`
+        : `${upcoming.label}: ${upcoming.years} years ${when}`;
+}
@@ -0,0 +1,70 @@
+import { Contact, LabeledValue, PostalAddress } from './types';
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function isValidEmail(value: string): boolean {
+    return EMAIL_REGEX.test(value.trim());
+}
+
+const PHONE_CHARS_REGEX = /^\+?[\d\s().\-/]+$/;
+
+/**
+ * Whether the value looks like a phone number in any country: digits with
+ * the usual separators, an optional leading +, and at most the 15 digits
+ * E.164 allows.
+ */
+export function isValidPhone(value: string): boolean {
+    const trimmed = value.trim();
+    if (!PHONE_CHARS_REGEX.test(trimmed)) return false;
+    const digits = trimmed.replace(/\D/g, '').replace(/^00/, '');
+    return digits.length >= 4 && digits.length <= 15;
+}
+
+/**
+ * Reduce a phone number to E.164 (+ and up to 15 digits). Numbers written
+ * with a 00 international prefix are converted; national numbers get the
+ * default country code, dropping a leading trunk 0. Returns null when the
+ * number is invalid or its country can't be told.
+ */
+export function toE164(value: string, defaultCountryCode = ''): string | null {
+    if (!isValidPhone(value)) return null;
+    const trimmed = value.trim();
+    let digits = trimmed.replace(/\D/g, '');
+
+    if (trimmed.startsWith('+')) {
+        // Already international
+    } else if (digits.startsWith('00')) {
+        digits = digits.slice(2);
+    } else {
+        const countryCode = defaultCountryCode.replace(/\D/g, '');
+        if (!countryCode) return null;
+        digits = countryCode + digits.replace(/^0/, '');
+    }
+
+    if (digits.length > 15 || digits.startsWith('0')) return null;
+    return `+${digits}`;
+}
+
+/**
+ * Value for a tel: link; falls back to the number as written.
+ */
+export function phoneHref(value: string, defaultCountryCode = ''): string {
+    return `tel:${toE164(value, defaultCountryCode) || value.replace(/\s/g, '')}`;
+}
+
+export function primaryEmail(contact: Partial<Contact>): string {
+    return contact.emails?.[0]?.value || '';
+}
+
+export function primaryPhone(contact: Partial<Contact>): string {
+    return contact.phones?.[0]?.value || '';
+}
+
+export function formatAddress(address: PostalAddress): string {
+    const cityLine = [address.postal_code, address.city].filter(v => v).join(' ');
+    return [address.street, cityLine, address.region, address.country].filter(v => v).join(', ');
+}
+
+export function formatLabeledValue(item: LabeledValue): string {
+    return item.label ? `${item.value} (${item.label})` : item.value;
+}
@@ -0,0 +1,44 @@
+import { App } from 'obsidian';
+import { Contact } from './types';
+import { DueStatus } from './contactFilters';
+import { daysUntil, describeDaysUntil, nextOccurrence, parseMonthDay, yearsSince } from './birthdays';
+
+export function formatBirthday(birthday?: string): string {
+    const parsed = parseMonthDay(birthday);
+    if (!parsed) return '';
+    const next = nextOccurrence(parsed);
+    const day = next.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+    const when = describeDaysUntil(daysUntil(next));
+    const age = yearsSince(parsed);
+    return age !== undefined ? `${day} (age ${age}, ${when})` : `${day} (${when})`;
+}
+
+export const DUE_STATUS_LABELS: Record<DueStatus, string> = {
+    'overdue': 'Overdue',
+    'due-soon': 'Due soon',
+    'scheduled': 'On track',
+    'unscheduled': 'Not scheduled',
+};
+
+export function initials(name: string): string {
+    return name.trim().split(/\s+/).slice(0, 2).map(part => Array.from(part)[0] || '').join('').toUpperCase();
+}
+
+export function renderAvatar(app: App, containerEl: HTMLElement, contact: Contact) {
+    const avatar = containerEl.createDiv({ cls: 'contacts-avatar' });
+    const src = resolveAvatar(app, contact.avatar);
+    if (src) {
+        avatar.createEl('img', { attr: { src, alt: contact.name } });
+    } else {
+        avatar.setText(initials(contact.name));
+    }
+}
+
+// Avatars are a vault path, a [[wikilink]] to an image, or a URL
+function resolveAvatar(app: App, avatar?: string): string | null {
+    if (!avatar) return null;
+    if (/^(https?|app|data):/.test(avatar)) return avatar;
+    const linkpath = avatar.replace(/^!?\[\[/, '').replace(/(\|.*)?\]\]$/, '');
+    const file = app.metadataCache.getFirstLinkpathDest(linkpath, '');
+    return file ? app.vault.getResourcePath(file) : null;
+}
@@ -0,0 +1,129 @@
+import { prepareFuzzySearch, prepareSimpleSearch } from 'obsidian';
+import { Contact, ContactSortKey, ContactViewState, DueFilter } from './types';
+import { daysUntil, nextOccurrence, parseMonthDay } from './birthdays';
+import { frequencyToDays } from './frequency';
+import { primaryEmail, primaryPhone } from './contactDetails';
+import { customFilterValues, formatCustomValue } from './customFields';
+import { dateTime } from './dates';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type DueStatus = 'overdue' | 'due-soon' | 'scheduled' | 'unscheduled';
+
+/**
+ * Where a contact stands relative to next_contact; due soon means within a week.
+ */
+export function getDueStatus(contact: Contact, now: Date = new Date()): DueStatus {
+    const next = dateTime(contact.next_contact);
+    if (next === null) return 'unscheduled';
+    if (next <= now.getTime()) return 'overdue';
+    if (next <= now.getTime() + 7 * DAY_MS) return 'due-soon';
+    return 'scheduled';
+}
+
+export function matchesDueFilter(contact: Contact, filter: DueFilter, now: Date = new Date()): boolean {
+    switch (filter) {
+        case 'overdue':
+            return getDueStatus(contact, now) === 'overdue';
+        case 'due_this_week':
+            return getDueStatus(contact, now) === 'due-soon';
+        case 'never_contacted':
+            return !contact.last_contacted;
+    }
+}
+
+/**
+ * Build a predicate for the search box. Short fields are fuzzy-matched; the
+ * notes and body are long enough that a fuzzy match would hit almost
+ * anything, so they need every word to appear.
+ */
+export function prepareContactSearch(query: string): (contact: Contact) => boolean {
+    const trimmed = query.trim();
+    if (!trimmed) return () => true;
+    const fuzzy = prepareFuzzySearch(trimmed);
+    const simple = prepareSimpleSearch(trimmed);
+
+    return contact => {
+        const fields = [
+            contact.name, contact.company, contact.title,
+            ...(contact.emails || []).map(e => e.value),
+            ...(contact.phones || []).map(p => p.value),
+            ...(contact.tags || []),
+            ...(contact.groups || []),
+            ...Object.keys(contact.custom || {}).map(key => formatCustomValue(contact.custom?.[key])),
+        ];
+        if (fields.some(field => field && fuzzy(field))) return true;
+        return [contact.notes, contact.body].some(text => text && simple(text));
+    };
+}
+
+/**
+ * Apply the view's search text and filter chips. Archived contacts only
+ * show up when the state asks for them.
+ */
+export function filterContacts(contacts: Contact[], state: ContactViewState, now: Date = new Date()): Contact[] {
+    const search = prepareContactSearch(state.search);
+    const lower = (values: string[]) => values.map(v => v.toLowerCase());
+    const tags = lower(state.tags);
+    const groups = lower(state.groups);
+    const companies = lower(state.companies);
+    const frequencies = lower(state.frequencies);
+    const custom = Object.keys(state.custom || {})
+        .map(key => ({ key, values: state.custom[key] }))
+        .filter(filter => filter.values.length);
+
+    return contacts.filter(contact => {
+        if (contact.archived && !state.showArchived) return false;
+        if (tags.length && !tags.every(tag => lower(contact.tags || []).includes(tag))) return false;
+        if (groups.length && !groups.some(group => lower(contact.groups || []).includes(group))) return false;
+        if (companies.length && !companies.includes((contact.company || '').toLowerCase())) return false;
+        if (frequencies.length && !frequencies.includes((contact.contact_frequency || '').toLowerCase())) return false;
+        if (custom.some(({ key, values }) => !customFilterValues(contact, key).some(value => values.includes(value)))) return false;
+        if (state.due && !matchesDueFilter(contact, state.due, now)) return false;
+        return search(contact);
+    });
+}
+
+function sortValue(contact: Contact, key: ContactSortKey): string | number | null {
+    switch (key) {
+        case 'last_contacted':
+        case 'next_contact':
+            return dateTime(contact[key]);
+        case 'contact_frequency':
+            return contact.contact_frequency ? frequencyToDays(contact.contact_frequency) : null;
+        case 'birthday': {
+            const parsed = parseMonthDay(contact.birthday);
+            return parsed ? daysUntil(nextOccurrence(parsed)) : null;
+        }
+        case 'email':
+            return primaryEmail(contact).toLowerCase() || null;
+        case 'phone':
+            return primaryPhone(contact) || null;
+        case 'name':
+            return contact.name.toLowerCase() || null;
+        default: {
+            // custom:<key>
+            const value = contact.custom?.[key.slice('custom:'.length)];
+            if (value === undefined) return null;
+            return typeof value === 'number' ? value : formatCustomValue(value).toLowerCase() || null;
+        }
+    }
+}
+
+/**
+ * Sort a copy of the contacts by a column. Empty values always sort last.
+ */
+export function sortContacts(contacts: Contact[], key: ContactSortKey, direction: 'asc' | 'desc'): Contact[] {
+    const factor = direction === 'asc' ? 1 : -1;
+    return [...contacts].sort((a, b) => {
+        const va = sortValue(a, key);
+        const vb = sortValue(b, key);
+        if (va === null && vb === null) return a.name.localeCompare(b.name);
+        if (va === null) return 1;
+        if (vb === null) return -1;
+        const result = typeof va === 'number' && typeof vb === 'number'
+            ? va - vb
+            : String(va).localeCompare(String(vb));
+        return result * factor || a.name.localeCompare(b.name);
+    });
+}
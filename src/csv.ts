@@ -0,0 +1,257 @@
+import { Contact, LabeledValue, PostalAddress } from './types';
+import { formatAddress, isValidEmail, isValidPhone, toE164 } from './contactDetails';
+import { parseMonthDay } from './birthdays';
+import { normalizeFrequency } from './frequency';
+import { parseDate } from './dates';
+
+/** One record of a CSV file */
+export interface CsvRecord {
+    /** 1-based line the record starts on, as a spreadsheet or editor numbers it */
+    line: number;
+    cells: string[];
+}
+
+/**
+ * Parse CSV text into records of cells: quoted cells may hold the delimiter,
+ * doubled quotes and line breaks. The delimiter (comma, semicolon or tab)
+ * is taken from the header line. Blank lines are left out.
+ */
+export function parseCsv(text: string): CsvRecord[] {
+    const content = text.replace(/^\uFEFF/, '');
+    const firstLine = content.slice(0, content.search(/\r?\n|$/));
+    const delimiter = [',', ';', '\t']
+        .map(d => ({ d, count: firstLine.split(d).length }))
+        .sort((a, b) => b.count - a.count)[0].d;
+
+    const rows: CsvRecord[] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+    let line = 1;
+    let rowLine = 1;
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (quoted) {
+            if (char === '"' && content[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                // Line breaks inside a quoted cell still move the records after it down
+                if (char === '\n' || (char === '\r' && content[i + 1] !== '\n')) line++;
+                cell += char;
+            }
+        } else if (char === '"' && cell === '') {
+            quoted = true;
+        } else if (char === delimiter) {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push({ line: rowLine, cells: row });
+            row = [];
+            cell = '';
+            rowLine = ++line;
+        } else {
+            cell += char;
+        }
+    }
+    if (cell || row.length) {
+        row.push(cell);
+        rows.push({ line: rowLine, cells: row });
+    }
+    return rows.filter(r => r.cells.some(c => c.trim()));
+}
+
+// Cells a spreadsheet would run as a formula; exports prefix them with a '
+const FORMULA_REGEX = /^[=+\-@\t\r]/;
+
+function escapeCell(value: string): string {
+    const safe = FORMULA_REGEX.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function toCsv(rows: string[][]): string {
+    return rows.map(row => row.map(escapeCell).join(',')).join('\r\n') + '\r\n';
+}
+
+export type CsvField = 'id' | 'name' | 'first_name' | 'last_name' | 'email' | 'phone' | 'company' | 'title'
+    | 'notes' | 'tags' | 'groups' | 'birthday' | 'url' | 'street' | 'city' | 'region' | 'postal_code' | 'country'
+    | 'contact_frequency' | 'last_contacted' | 'next_contact';
+
+/**
+ * Contact fields a CSV column can be mapped to, with header patterns from
+ * our own export and Google and Outlook exports used to guess the mapping.
+ */
+export const CSV_FIELDS: { key: CsvField; label: string; pattern: RegExp }[] = [
+    { key: 'id', label: 'ID', pattern: /^id$/ },
+    { key: 'name', label: 'Name', pattern: /^(full ?)?name$|^display ?name$/ },
+    { key: 'first_name', label: 'First name', pattern: /^(first|given) ?name$/ },
+    { key: 'last_name', label: 'Last name', pattern: /^(last|family|sur) ?name$/ },
+    { key: 'email', label: 'Email', pattern: /e-?mail/ },
+    { key: 'phone', label: 'Phone', pattern: /phone|mobile|tel/ },
+    { key: 'company', label: 'Company', pattern: /^company$|organi[sz]ation( \d+ -)? name|^organi[sz]ation$/ },
+    { key: 'title', label: 'Title', pattern: /^(job )?title$|organi[sz]ation( \d+ -)? title/ },
+    { key: 'notes', label: 'Notes', pattern: /^notes?$/ },
+    { key: 'tags', label: 'Tags', pattern: /^tags?$|^categories$/ },
+    { key: 'groups', label: 'Groups', pattern: /^groups?$|group membership/ },
+    { key: 'birthday', label: 'Birthday', pattern: /birthday|date of birth/ },
+    { key: 'url', label: 'Website', pattern: /web ?site|^urls?$|web page/ },
+    { key: 'street', label: 'Street', pattern: /street|address( \d+ -)? street/ },
+    { key: 'city', label: 'City', pattern: /city/ },
+    { key: 'country', label: 'Country', pattern: /country/ },
+    { key: 'region', label: 'Region', pattern: /region|state|province/ },
+    { key: 'postal_code', label: 'Postal code', pattern: /postal|zip/ },
+    { key: 'contact_frequency', label: 'Contact frequency', pattern: /frequency/ },
+    { key: 'last_contacted', label: 'Last contacted', pattern: /last contact/ },
+    { key: 'next_contact', label: 'Next contact', pattern: /next contact/ },
+];
+
+/**
+ * A field for each header, or '' to ignore the column. Only the first
+ * column guessed for a single-value field gets it; emails and phones may
+ * come from several columns.
+ */
+export function guessCsvMapping(headers: string[]): (CsvField | '')[] {
+    const used = new Set<CsvField>();
+    return headers.map(header => {
+        const normalized = header.trim().toLowerCase().replace(/[_\s]+/g, ' ');
+        // Google exports pair each value with a "type" column
+        if (/ - (type|label)$/.test(normalized)) return '';
+        const field = CSV_FIELDS.find(f => f.pattern.test(normalized));
+        if (!field) return '';
+        if (used.has(field.key) && field.key !== 'email' && field.key !== 'phone') return '';
+        used.add(field.key);
+        return field.key;
+    });
+}
+
+export interface CsvRowResult {
+    /** 1-based line in the file the record starts on */
+    row: number;
+    contact: Contact | null;
+    errors: string[];
+}
+
+// Values of one cell holding several, e.g. "a@x.org; b@y.org"
+function splitList(value: string, separator: RegExp): string[] {
+    return value.split(separator).map(v => v.trim()).filter(v => v);
+}
+
+/**
+ * Turn each data row into a contact using the column mapping, checking
+ * emails, phones, dates and frequencies. Rows with errors come back without
+ * a contact so the import can report them and carry on.
+ */
+export function csvRowsToContacts(records: CsvRecord[], mapping: (CsvField | '')[], now: string, defaultCountryCode = ''): CsvRowResult[] {
+    return records.map(({ line, cells }) => {
+        const errors: string[] = [];
+        const values: Partial<Record<CsvField, string[]>> = {};
+        mapping.forEach((field, column) => {
+            // Undo the ' our export puts before formula-like values such as "+1 555…"
+            const value = (cells[column] || '').trim().replace(/^'(?=[=+\-@])/, '');
+            if (field && value) values[field] = [...(values[field] || []), value];
+        });
+        const one = (field: CsvField) => values[field]?.join(' ') || undefined;
+
+        const name = one('name') || [one('first_name'), one('last_name')].filter(v => v).join(' ');
+        if (!name) errors.push('missing name');
+
+        const emails: LabeledValue[] = [];
+        (values.email || []).forEach(cell => splitList(cell, /[;,]|\s:::\s/).forEach(value => {
+            if (isValidEmail(value)) emails.push({ label: '', value });
+            else errors.push(`invalid email "${value}"`);
+        }));
+
+        const phones: LabeledValue[] = [];
+        (values.phone || []).forEach(cell => splitList(cell, /[;]|\s:::\s/).forEach(value => {
+            if (isValidPhone(value)) phones.push({ label: '', value: toE164(value, defaultCountryCode) || value });
+            else errors.push(`invalid phone "${value}"`);
+        }));
+
+        const birthday = one('birthday');
+        if (birthday && !parseMonthDay(birthday)) errors.push(`invalid birthday "${birthday}"`);
+
+        const frequency = one('contact_frequency');
+        const normalizedFrequency = frequency ? normalizeFrequency(frequency) : undefined;
+        if (frequency && !normalizedFrequency) errors.push(`unknown contact frequency "${frequency}"`);
+
+        for (const field of ['last_contacted', 'next_contact'] as const) {
+            const value = one(field);
+            if (value && !parseDate(value)) errors.push(`invalid ${field.replace('_', ' ')} "${value}"`);
+        }
+
+        if (errors.length) return { row: line, contact: null, errors };
+
+        const address: PostalAddress = { label: '' };
+        (['street', 'city', 'region', 'postal_code', 'country'] as const).forEach(part => {
+            const value = one(part);
+            if (value) address[part] = value;
+        });
+        const list = (field: CsvField, separator: RegExp) => {
+            const items = (values[field] || []).reduce((all: string[], cell) => all.concat(splitList(cell, separator)), []);
+            return items.length ? items : undefined;
+        };
+        const urls = list('url', /[;\s]+/)?.map(value => ({ label: '', value }));
+
+        const contact: Contact = {
+            id: one('id'),
+            name,
+            emails: emails.length ? emails : undefined,
+            phones: phones.length ? phones : undefined,
+            addresses: formatAddress(address) ? [address] : undefined,
+            urls,
+            company: one('company'),
+            title: one('title'),
+            notes: values.notes?.join('\n'),
+            tags: list('tags', /[;,]/)?.map(tag => tag.replace(/^#/, '')),
+            // Google writes groups as "* myContacts ::: Friends"
+            groups: list('groups', /[;,]|:::/)?.filter(group => !group.startsWith('*')),
+            birthday,
+            contact_frequency: normalizedFrequency || undefined,
+            last_contacted: one('last_contacted'),
+            next_contact: one('next_contact'),
+            created: now,
+            modified: now,
+        };
+        return { row: line, contact, errors };
+    });
+}
+
+/** Columns offered for export, in order */
+export const CSV_EXPORT_FIELDS: { key: string; label: string; value: (contact: Contact) => string }[] = [
+    { key: 'id', label: 'ID', value: c => c.id || '' },
+    { key: 'name', label: 'Name', value: c => c.name },
+    { key: 'email', label: 'Email', value: c => (c.emails || []).map(e => e.value).join('; ') },
+    { key: 'phone', label: 'Phone', value: c => (c.phones || []).map(p => p.value).join('; ') },
+    { key: 'company', label: 'Company', value: c => c.company || '' },
+    { key: 'title', label: 'Title', value: c => c.title || '' },
+    { key: 'street', label: 'Street', value: c => c.addresses?.[0]?.street || '' },
+    { key: 'city', label: 'City', value: c => c.addresses?.[0]?.city || '' },
+    { key: 'region', label: 'Region', value: c => c.addresses?.[0]?.region || '' },
+    { key: 'postal_code', label: 'Postal code', value: c => c.addresses?.[0]?.postal_code || '' },
+    { key: 'country', label: 'Country', value: c => c.addresses?.[0]?.country || '' },
+    { key: 'url', label: 'Website', value: c => (c.urls || []).map(u => u.value).join('; ') },
+    { key: 'tags', label: 'Tags', value: c => (c.tags || []).join('; ') },
+    { key: 'groups', label: 'Groups', value: c => (c.groups || []).join('; ') },
+    { key: 'birthday', label: 'Birthday', value: c => c.birthday || '' },
+    { key: 'notes', label: 'Notes', value: c => c.notes || '' },
+    { key: 'contact_frequency', label: 'Contact frequency', value: c => c.contact_frequency || '' },
+    { key: 'last_contacted', label: 'Last contacted', value: c => c.last_contacted || '' },
+    { key: 'next_contact', label: 'Next contact', value: c => c.next_contact || '' },
+];
+
+/**
+ * CSV of the contacts with the chosen columns. The headers match what
+ * guessCsvMapping recognizes, so an exported file can be edited and
+ * imported again.
+ */
+export function contactsToCsv(contacts: Contact[], fields: string[]): string {
+    const columns = CSV_EXPORT_FIELDS.filter(field => fields.includes(field.key));
+    return toCsv([
+        columns.map(column => column.label),
+        ...contacts.map(contact => columns.map(column => column.value(contact))),
+    ]);
+}
@@ -0,0 +1,83 @@
+import { Contact, CustomFieldDefinition, CustomFieldValue } from './types';
+import { wikilinkPath } from './relationships';
+
+/** Frontmatter keys the plugin manages itself, which custom fields can't use */
+export const RESERVED_FIELD_KEYS = [
+    'id', 'name', 'emails', 'phones', 'addresses', 'urls', 'company', 'title', 'notes', 'tags', 'groups',
+    'relationships', 'avatar', 'birthday', 'important_dates', 'created', 'modified', 'last_contacted',
+    'next_contact', 'contact_frequency', 'email', 'phone', 'aliases', 'cssclasses',
+];
+
+/**
+ * Why a key can't be used for a custom field, or null if it can: it must be
+ * a plain property name and not one the plugin or Obsidian already uses.
+ */
+export function validateFieldKey(key: string, fields: CustomFieldDefinition[], self?: CustomFieldDefinition): string | null {
+    if (!/^[a-z][a-z0-9_-]*$/i.test(key)) return 'Use letters, digits, "-" and "_", starting with a letter';
+    if (RESERVED_FIELD_KEYS.includes(key.toLowerCase())) return `"${key}" is a built-in field`;
+    if (fields.some(field => field !== self && field.key.toLowerCase() === key.toLowerCase())) return `"${key}" is already defined`;
+    return null;
+}
+
+/**
+ * A frontmatter value as the field's type, or undefined when it's empty or
+ * can't be read as that type.
+ */
+export function readCustomValue(field: CustomFieldDefinition, raw: unknown): CustomFieldValue | undefined {
+    if (raw === undefined || raw === null || raw === '') return undefined;
+    switch (field.type) {
+        case 'number': {
+            const value = typeof raw === 'number' ? raw : Number(raw);
+            return isNaN(value) ? undefined : value;
+        }
+        case 'boolean':
+            return raw === true || raw === 'true' || raw === 'yes';
+        case 'list': {
+            const items = (Array.isArray(raw) ? raw : String(raw).split(','))
+                .map(item => String(item).trim())
+                .filter(item => item);
+            return items.length ? items : undefined;
+        }
+        case 'date':
+            // Unquoted YAML dates may come back as Date objects
+            return raw instanceof Date ? raw.toISOString().slice(0, 10) : String(raw);
+        default:
+            return String(raw);
+    }
+}
+
+/**
+ * Why the value isn't valid for the field, or null if it is.
+ */
+export function validateCustomValue(field: CustomFieldDefinition, value: CustomFieldValue | undefined): string | null {
+    const empty = value === undefined || value === '' || (Array.isArray(value) && !value.length);
+    if (empty) return field.required && field.type !== 'boolean' ? `${field.label} is required` : null;
+    switch (field.type) {
+        case 'number':
+            return typeof value === 'number' && !isNaN(value) ? null : `${field.label} must be a number`;
+        case 'date':
+            return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) ? null : `${field.label} must be a date (YYYY-MM-DD)`;
+        case 'select':
+            return field.options?.includes(String(value)) ? null : `${field.label} must be one of: ${(field.options || []).join(', ')}`;
+        case 'link':
+            return typeof value === 'string' && wikilinkPath(value) ? null : `${field.label} must be a [[link]]`;
+        default:
+            return null;
+    }
+}
+
+export function formatCustomValue(value: CustomFieldValue | undefined): string {
+    if (value === undefined) return '';
+    if (Array.isArray(value)) return value.join(', ');
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    return String(value);
+}
+
+/**
+ * The values a contact has for a field, as strings, for filtering.
+ */
+export function customFilterValues(contact: Contact, key: string): string[] {
+    const value = contact.custom?.[key];
+    if (value === undefined) return [];
+    return Array.isArray(value) ? value : [formatCustomValue(value)];
+}
@@ -0,0 +1,147 @@
+import { Contact } from './types';
+import { DueStatus, getDueStatus } from './contactFilters';
+import { parseDate, toLocalDate } from './dates';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface Bucket {
+    /** First day of the week or month, YYYY-MM-DD */
+    start: string;
+    count: number;
+}
+
+export interface Breakdown {
+    label: string;
+    total: number;
+    overdue: number;
+}
+
+export interface NeglectedContact {
+    contact: Contact;
+    /** Days since last contact, or null if never contacted */
+    days: number | null;
+}
+
+export interface DueDay {
+    /** YYYY-MM-DD */
+    date: string;
+    contacts: Contact[];
+}
+
+export interface DashboardStats {
+    total: number;
+    status: Record<DueStatus, number>;
+    perWeek: Bucket[];
+    perMonth: Bucket[];
+    neglected: NeglectedContact[];
+    byTag: Breakdown[];
+    byCompany: Breakdown[];
+    byFrequency: Breakdown[];
+    /** Today and the six days after it, each with the contacts due that day */
+    weekAhead: DueDay[];
+}
+
+const WEEKS = 12;
+const MONTHS = 12;
+const NEGLECTED = 10;
+
+function startOfDay(date: Date): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+// Weeks start on Monday
+function startOfWeek(date: Date): Date {
+    const day = startOfDay(date);
+    day.setDate(day.getDate() - (day.getDay() + 6) % 7);
+    return day;
+}
+
+/**
+ * Interaction counts for the last `count` weeks or months up to and
+ * including the current one, oldest first.
+ */
+function countInteractions(contacts: Contact[], now: Date, unit: 'week' | 'month', count: number): Bucket[] {
+    const starts: Date[] = [];
+    for (let i = count - 1; i >= 0; i--) {
+        if (unit === 'week') {
+            const start = startOfWeek(now);
+            start.setDate(start.getDate() - i * 7);
+            starts.push(start);
+        } else {
+            starts.push(new Date(now.getFullYear(), now.getMonth() - i, 1));
+        }
+    }
+    const buckets = starts.map(start => ({ start: toLocalDate(start), count: 0 }));
+    const first = starts[0].getTime();
+
+    contacts.forEach(contact => (contact.interactions || []).forEach(interaction => {
+        const date = parseDate(interaction.date);
+        if (!date || date.getTime() < first || date.getTime() > now.getTime()) return;
+        // The last bucket starting on or before the date
+        for (let i = starts.length - 1; i >= 0; i--) {
+            if (starts[i].getTime() <= date.getTime()) {
+                buckets[i].count++;
+                break;
+            }
+        }
+    }));
+    return buckets;
+}
+
+function breakdown(contacts: Contact[], keys: (contact: Contact) => string[], now: Date): Breakdown[] {
+    const rows = new Map<string, Breakdown>();
+    contacts.forEach(contact => {
+        const overdue = getDueStatus(contact, now) === 'overdue';
+        keys(contact).forEach(label => {
+            const row = rows.get(label) || { label, total: 0, overdue: 0 };
+            row.total++;
+            if (overdue) row.overdue++;
+            rows.set(label, row);
+        });
+    });
+    return Array.from(rows.values()).sort((a, b) => b.total - a.total || a.label.localeCompare(b.label));
+}
+
+/**
+ * Everything the dashboard shows, from the contacts' last_contacted,
+ * next_contact, contact_frequency and interaction logs.
+ */
+export function getDashboardStats(contacts: Contact[], now: Date = new Date()): DashboardStats {
+    const status: Record<DueStatus, number> = { 'overdue': 0, 'due-soon': 0, 'scheduled': 0, 'unscheduled': 0 };
+    contacts.forEach(contact => status[getDueStatus(contact, now)]++);
+
+    // Never contacted first, then the longest since last contact
+    const neglected = contacts
+        .map(contact => {
+            const last = parseDate(contact.last_contacted);
+            return { contact, days: last ? Math.floor((now.getTime() - last.getTime()) / DAY_MS) : null };
+        })
+        .sort((a, b) => (b.days ?? Infinity) - (a.days ?? Infinity) || a.contact.name.localeCompare(b.contact.name))
+        .slice(0, NEGLECTED);
+
+    const today = startOfDay(now);
+    const weekAhead: DueDay[] = [];
+    for (let i = 0; i < 7; i++) {
+        const day = new Date(today.getFullYear(), today.getMonth(), today.getDate() + i);
+        weekAhead.push({ date: toLocalDate(day), contacts: [] });
+    }
+    contacts.forEach(contact => {
+        const next = parseDate(contact.next_contact);
+        if (!next) return;
+        // Overdue contacts are still due, so they show up today
+        const day = next.getTime() < today.getTime() ? weekAhead[0] : weekAhead.find(d => d.date === toLocalDate(next));
+        day?.contacts.push(contact);
+    });
+
+    return {
+        total: contacts.length,
+        status,
+        perWeek: countInteractions(contacts, now, 'week', WEEKS),
+        perMonth: countInteractions(contacts, now, 'month', MONTHS),
+        neglected,
+        byTag: breakdown(contacts, c => c.tags || [], now),
+        byCompany: breakdown(contacts, c => c.company ? [c.company] : [], now),
+        byFrequency: breakdown(contacts, c => [c.contact_frequency || 'Not set'], now),
+        weekAhead,
+    };
+}
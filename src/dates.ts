@@ -0,0 +1,150 @@
+import { moment } from 'obsidian';
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+const DATE_REGEX = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+interface DateParts {
+    year: number;
+    month: number;
+    day: number;
+    hours: number;
+    minutes: number;
+    /** Whether the value had a time of day */
+    hasTime: boolean;
+    /** Minutes east of UTC, or null for local time */
+    offset: number | null;
+}
+
+function parseParts(value: string): DateParts | null {
+    const match = value.trim().match(DATE_REGEX);
+    if (!match) return null;
+    const [, year, month, day, hours, minutes, , zone] = match;
+    let offset: number | null = null;
+    if (zone === 'Z') {
+        offset = 0;
+    } else if (zone) {
+        const digits = zone.replace(':', '');
+        offset = (zone[0] === '-' ? -1 : 1) * (Number(digits.slice(1, 3)) * 60 + Number(digits.slice(3, 5)));
+    }
+    return {
+        year: Number(year),
+        month: Number(month),
+        day: Number(day),
+        hours: Number(hours || 0),
+        minutes: Number(minutes || 0),
+        hasTime: hours !== undefined,
+        offset,
+    };
+}
+
+function formatOffset(offset: number): string {
+    const sign = offset < 0 ? '-' : '+';
+    const abs = Math.abs(offset);
+    return `${sign}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`;
+}
+
+/**
+ * Format a date as local time in the YYYY-MM-DDTHH:mm form used by
+ * datetime-local inputs and the interaction log.
+ */
+export function toLocalDateTime(date: Date): string {
+    return `${toLocalDate(date)}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/** The local calendar day as YYYY-MM-DD */
+export function toLocalDate(date: Date): string {
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * The timestamp form stored in frontmatter: local time with its UTC offset,
+ * e.g. 2025-04-24T09:28+02:00. It reads naturally and still names one
+ * instant when the vault is opened in another timezone.
+ */
+export function toTimestamp(date: Date): string {
+    return `${toLocalDateTime(date)}${formatOffset(-date.getTimezoneOffset())}`;
+}
+
+export function nowTimestamp(): string {
+    return toTimestamp(new Date());
+}
+
+/**
+ * Read a stored date. Values with an offset or Z are exact; YYYY-MM-DD and
+ * YYYY-MM-DDTHH:mm without one are local time (plain `new Date()` would read
+ * a bare date as UTC midnight). Returns null for anything else.
+ */
+export function parseDate(value?: string): Date | null {
+    if (!value) return null;
+    const parts = parseParts(value);
+    if (!parts) {
+        // Other ISO forms written by hand or other tools
+        const date = new Date(value);
+        return isNaN(date.getTime()) ? null : date;
+    }
+    const { year, month, day, hours, minutes, offset } = parts;
+    if (offset === null) return new Date(year, month - 1, day, hours, minutes);
+    return new Date(Date.UTC(year, month - 1, day, hours, minutes) - offset * 60000);
+}
+
+/** Milliseconds since the epoch, or null when the value isn't a date */
+export function dateTime(value?: string): number | null {
+    const date = parseDate(value);
+    return date ? date.getTime() : null;
+}
+
+export function hasTime(value: string): boolean {
+    return !!parseParts(value)?.hasTime;
+}
+
+/**
+ * A local YYYY-MM-DDTHH:mm (or YYYY-MM-DD) from an input as a stored
+ * timestamp, using the offset in effect on that day.
+ */
+export function localToTimestamp(value: string): string | undefined {
+    const date = parseDate(value);
+    return date ? toTimestamp(date) : undefined;
+}
+
+/**
+ * The date as written, ignoring the timezone: the wall-clock time where it
+ * was recorded, as YYYY-MM-DDTHH:mm. Comparing these keeps a contact logged
+ * in one timezone from looking newer or older when opened in another.
+ */
+export function wallClock(value: string): string | undefined {
+    const parts = parseParts(value);
+    if (!parts) {
+        const date = parseDate(value);
+        return date ? toLocalDateTime(date) : undefined;
+    }
+    return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}T${pad(parts.hours)}:${pad(parts.minutes)}`;
+}
+
+/**
+ * Shift the wall-clock time of a stored date with `shift`, keeping the
+ * original's offset, so the result doesn't depend on where it's computed.
+ * The callback works on a Date whose local fields hold the wall-clock time.
+ */
+export function shiftDate(value: string, shift: (date: Date) => Date): string | undefined {
+    const parts = parseParts(value);
+    const date = parseDate(value);
+    if (!date) return undefined;
+    if (!parts || parts.offset === null) return toTimestamp(shift(date));
+
+    const { year, month, day, hours, minutes, offset } = parts;
+    const shifted = shift(new Date(year, month - 1, day, hours, minutes));
+    return `${toLocalDateTime(shifted)}${formatOffset(offset)}`;
+}
+
+/**
+ * A stored date for display, in the user's moment format or, when none is
+ * set, the locale's. The time is shown only if the value has one.
+ */
+export function formatDisplayDate(value?: string, format?: string): string | undefined {
+    if (!value) return undefined;
+    const date = parseDate(value);
+    if (!date) return value;
+    const day = moment(date).format(format || 'll');
+    return hasTime(value) ? `${day} ${moment(date).format('LT')}` : day;
+}
@@ -0,0 +1,174 @@
+import { Contact, LabeledValue } from './types';
+import { formatAddress, toE164 } from './contactDetails';
+import { addInteraction, formatInteraction, parseInteractions, removeInteractions } from './interactions';
+import { dateTime } from './dates';
+
+export interface DuplicatePair {
+    a: Contact;
+    b: Contact;
+    score: number;
+    /** What matched, e.g. "same email" */
+    reasons: string[];
+}
+
+const MIN_SCORE = 40;
+
+/**
+ * Lowercase, without accents, punctuation or word order, so "Doe, Jane" and
+ * "jane doe" compare equal.
+ */
+export function normalizeName(name: string): string {
+    return name
+        .normalize('NFD')
+        .replace(/\p{M}/gu, '')
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(part => part)
+        .sort()
+        .join(' ');
+}
+
+function normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+}
+
+// E.164 when possible; otherwise the last nine digits, which survive most
+// differences in how the same number is written
+function normalizePhone(phone: string, defaultCountryCode: string): string {
+    return toE164(phone, defaultCountryCode) || phone.replace(/\D/g, '').slice(-9);
+}
+
+function shared(a: string[], b: string[]): boolean {
+    return a.some(value => value && b.includes(value));
+}
+
+/**
+ * Score two contacts on how likely they are the same person: 0 for no
+ * evidence, higher with each matching name, email or phone number.
+ */
+export function scoreDuplicate(a: Contact, b: Contact, defaultCountryCode = ''): { score: number; reasons: string[] } {
+    const reasons: string[] = [];
+    let score = 0;
+
+    const nameA = normalizeName(a.name);
+    const nameB = normalizeName(b.name);
+    if (nameA && nameA === nameB) {
+        score += 40;
+        reasons.push('same name');
+    } else if (nameA && nameB) {
+        // One name is the other plus a middle name or initial, say
+        const partsA = nameA.split(' ');
+        const partsB = nameB.split(' ');
+        const [shorter, longer] = partsA.length <= partsB.length ? [partsA, partsB] : [partsB, partsA];
+        if (shorter.length > 1 && shorter.every(part => longer.includes(part))) {
+            score += 25;
+            reasons.push('similar name');
+        }
+    }
+
+    if (shared((a.emails || []).map(e => normalizeEmail(e.value)), (b.emails || []).map(e => normalizeEmail(e.value)))) {
+        score += 50;
+        reasons.push('same email');
+    }
+
+    const phones = (c: Contact) => (c.phones || []).map(p => normalizePhone(p.value, defaultCountryCode));
+    if (shared(phones(a), phones(b))) {
+        score += 40;
+        reasons.push('same phone');
+    }
+
+    return { score, reasons };
+}
+
+/**
+ * Pairs of contacts that are likely the same person, most likely first.
+ */
+export function findDuplicates(contacts: Contact[], defaultCountryCode = ''): DuplicatePair[] {
+    const pairs: DuplicatePair[] = [];
+    for (let i = 0; i < contacts.length; i++) {
+        for (let j = i + 1; j < contacts.length; j++) {
+            const { score, reasons } = scoreDuplicate(contacts[i], contacts[j], defaultCountryCode);
+            if (score >= MIN_SCORE) pairs.push({ a: contacts[i], b: contacts[j], score, reasons });
+        }
+    }
+    return pairs.sort((x, y) => y.score - x.score);
+}
+
+/** Single-value fields where the merge asks which contact's value to keep */
+export const MERGE_FIELDS: { key: MergeField; label: string }[] = [
+    { key: 'name', label: 'Name' },
+    { key: 'company', label: 'Company' },
+    { key: 'title', label: 'Title' },
+    { key: 'notes', label: 'Notes' },
+    { key: 'avatar', label: 'Avatar' },
+    { key: 'birthday', label: 'Birthday' },
+    { key: 'contact_frequency', label: 'Contact Frequency' },
+    { key: 'next_contact', label: 'Next Contact' },
+];
+
+export type MergeField = 'name' | 'company' | 'title' | 'notes' | 'avatar' | 'birthday' | 'contact_frequency' | 'next_contact';
+
+function union<T>(a: T[] | undefined, b: T[] | undefined, key: (item: T) => string): T[] | undefined {
+    const result: T[] = [];
+    const seen = new Set<string>();
+    [...(a || []), ...(b || [])].forEach(item => {
+        const k = key(item);
+        if (seen.has(k)) return;
+        seen.add(k);
+        result.push(item);
+    });
+    return result.length ? result : undefined;
+}
+
+const byValue = (item: LabeledValue) => item.value.trim().toLowerCase();
+
+/**
+ * Combine two contacts into the one being kept. Single values come from
+ * `keep` unless `picks` says to take the other's (an empty value never
+ * wins); lists are combined without duplicates. The earlier created date
+ * and the later last_contacted are kept.
+ */
+export function mergeContactFields(keep: Contact, other: Contact, picks: Partial<Record<MergeField, 'keep' | 'other'>>, defaultCountryCode = ''): Contact {
+    const merged: Contact = { ...keep };
+    MERGE_FIELDS.forEach(({ key }) => {
+        const useOther = picks[key] === 'other' ? other[key] : !keep[key] && other[key];
+        if (useOther) merged[key] = other[key] as string;
+    });
+
+    merged.emails = union(keep.emails, other.emails, byValue);
+    merged.phones = union(keep.phones, other.phones, p => normalizePhone(p.value, defaultCountryCode));
+    merged.urls = union(keep.urls, other.urls, byValue);
+    merged.addresses = union(keep.addresses, other.addresses, a => formatAddress(a).toLowerCase());
+    merged.important_dates = union(keep.important_dates, other.important_dates, d => `${d.label.toLowerCase()}|${d.date}`);
+    merged.tags = union(keep.tags, other.tags, t => t.toLowerCase());
+    merged.groups = union(keep.groups, other.groups, g => g.toLowerCase());
+    if (keep.custom || other.custom) merged.custom = { ...other.custom, ...keep.custom };
+    merged.relationships = union(keep.relationships, other.relationships, r => `${r.type.toLowerCase()}|${r.contact}`);
+
+    const earliest = [keep.created, other.created].filter(v => v).sort()[0];
+    if (earliest) merged.created = earliest;
+    const latest = [keep.last_contacted, other.last_contacted].filter((v): v is string => !!v)
+        .sort((x, y) => (dateTime(y) || 0) - (dateTime(x) || 0))[0];
+    if (latest) merged.last_contacted = latest;
+
+    return merged;
+}
+
+/**
+ * The kept contact's body with the other's interactions merged into its log
+ * and the rest of the other's notes appended under their own heading.
+ */
+export function mergeBodies(keepBody: string, otherBody: string, otherName: string): string {
+    let body = keepBody;
+    const existing = new Set(parseInteractions(keepBody).map(formatInteraction));
+    parseInteractions(otherBody)
+        .filter(interaction => !existing.has(formatInteraction(interaction)))
+        .forEach(interaction => body = addInteraction(body, interaction));
+
+    // The title heading is the other contact's name, which the kept note already has
+    const rest = removeInteractions(otherBody)
+        .replace(/^\s*#\s+.*(\n|$)/, '')
+        .trim();
+    if (!rest) return body;
+    return `${body.replace(/\s+$/, '')}\n\n## Merged from ${otherName}\n\n${rest}\n`;
+}
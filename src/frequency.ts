@@ -0,0 +1,127 @@
+import { shiftDate } from './dates';
+import { Contact, TagFrequency } from './types';
+
+export type FrequencyUnit = 'day' | 'week' | 'month' | 'year';
+
+export interface Frequency {
+    count: number;
+    unit: FrequencyUnit;
+}
+
+const NAMED_FREQUENCIES: Record<string, Frequency> = {
+    daily: { count: 1, unit: 'day' },
+    weekly: { count: 1, unit: 'week' },
+    biweekly: { count: 2, unit: 'week' },
+    monthly: { count: 1, unit: 'month' },
+    quarterly: { count: 3, unit: 'month' },
+    yearly: { count: 1, unit: 'year' },
+};
+
+const UNIT_ALIASES: Record<string, FrequencyUnit> = {
+    d: 'day', day: 'day', days: 'day',
+    w: 'week', week: 'week', weeks: 'week',
+    m: 'month', month: 'month', months: 'month',
+    y: 'year', year: 'year', years: 'year',
+};
+
+const APPROX_DAYS: Record<FrequencyUnit, number> = { day: 1, week: 7, month: 30.44, year: 365.25 };
+
+/**
+ * Parse a contact frequency. Accepts the named frequencies ("weekly",
+ * "quarterly", …), "every 10 days" / "every month", and shorthands like "6w".
+ */
+export function parseFrequency(value?: string): Frequency | null {
+    if (!value) return null;
+    const text = value.trim().toLowerCase();
+    if (NAMED_FREQUENCIES[text]) return NAMED_FREQUENCIES[text];
+
+    const match = text.match(/^(?:every\s+)?(\d+)?\s*([a-z]+)$/);
+    if (!match) return null;
+    const unit = UNIT_ALIASES[match[2]];
+    const count = match[1] ? parseInt(match[1], 10) : 1;
+    if (!unit || count < 1) return null;
+    // "10" alone or "every d" aren't meaningful
+    if (!match[1] && !text.startsWith('every')) return null;
+    return { count, unit };
+}
+
+/**
+ * Canonical form written to contact files. Single intervals keep their
+ * familiar names so existing files stay unchanged.
+ */
+export function formatFrequency(frequency: Frequency): string {
+    for (const [name, named] of Object.entries(NAMED_FREQUENCIES)) {
+        if (named.count === frequency.count && named.unit === frequency.unit && name !== 'biweekly') return name;
+    }
+    return `every ${frequency.count} ${frequency.unit}${frequency.count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Normalize a user-entered frequency, or undefined if it can't be parsed.
+ */
+export function normalizeFrequency(value?: string): string | undefined {
+    const frequency = parseFrequency(value);
+    return frequency ? formatFrequency(frequency) : undefined;
+}
+
+/**
+ * Approximate length in days, for sorting. Unparseable values sort last.
+ */
+export function frequencyToDays(value?: string): number {
+    const frequency = parseFrequency(value);
+    return frequency ? frequency.count * APPROX_DAYS[frequency.unit] : Infinity;
+}
+
+// Add months without overflowing: Jan 31 + 1 month is Feb 28/29, not Mar 3
+function addMonths(date: Date, months: number) {
+    const day = date.getDate();
+    date.setDate(1);
+    date.setMonth(date.getMonth() + months);
+    const daysInMonth = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+    date.setDate(Math.min(day, daysInMonth));
+}
+
+export function addFrequency(date: Date, frequency: Frequency): Date {
+    const result = new Date(date.getTime());
+    switch (frequency.unit) {
+        case 'day':
+            result.setDate(result.getDate() + frequency.count);
+            break;
+        case 'week':
+            result.setDate(result.getDate() + frequency.count * 7);
+            break;
+        case 'month':
+            addMonths(result, frequency.count);
+            break;
+        case 'year':
+            addMonths(result, frequency.count * 12);
+            break;
+    }
+    return result;
+}
+
+/**
+ * The contact's own frequency, or the default of the first matching tag
+ * from the settings.
+ */
+export function resolveFrequency(contact: Partial<Contact>, tagFrequencies: TagFrequency[]): string | undefined {
+    if (contact.contact_frequency) return contact.contact_frequency;
+    const tags = (contact.tags || []).map(normalizeTag);
+    const match = tagFrequencies.find(tf => tags.includes(normalizeTag(tf.tag)));
+    return match ? match.frequency : undefined;
+}
+
+function normalizeTag(tag: string): string {
+    return tag.trim().replace(/^#/, '').toLowerCase();
+}
+
+/**
+ * Add one contact interval to a stored date. The result keeps the original's
+ * timezone offset, so it's the same wherever the vault is opened.
+ */
+export function calculateNextContact(lastContacted: string, frequency: string): string | undefined {
+    if (!lastContacted || !frequency) return undefined;
+    const parsed = parseFrequency(frequency);
+    if (!parsed) return undefined;
+    return shiftDate(lastContacted, date => addFrequency(date, parsed));
+}
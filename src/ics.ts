@@ -0,0 +1,147 @@
+import { Contact, TagFrequency } from './types';
+import { formatFrequency, parseFrequency, resolveFrequency } from './frequency';
+import { hasTime, parseDate } from './dates';
+import { parseMonthDay } from './birthdays';
+import { slugify } from './identity';
+import { escapeText, fold } from './vcard';
+
+const PRODUCT_ID = '-//Friend Keeper//Contacts//EN';
+const UID_DOMAIN = 'friend-keeper';
+// Years for dates stored without one; 2000 is a leap year, so --02-29 is valid
+const YEARLESS_YEAR = 2000;
+
+const RRULE_FREQ = { day: 'DAILY', week: 'WEEKLY', month: 'MONTHLY', year: 'YEARLY' };
+
+export interface CalendarOptions {
+    /** Frequencies of contacts without their own, as for scheduling */
+    tagFrequencies: TagFrequency[];
+    /** Link from each event back to the contact's note */
+    noteUrl?: (contact: Contact) => string;
+}
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+// UTC DATE-TIME such as 20250301T091500Z
+function formatDateTime(date: Date): string {
+    return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`
+        + `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+function formatDate(year: number, month: number, day: number): string {
+    return `${year}${pad(month)}${pad(day)}`;
+}
+
+// The day after a DATE value, for the exclusive DTEND of all-day events
+function nextDay(year: number, month: number, day: number): string {
+    const date = new Date(Date.UTC(year, month - 1, day + 1));
+    return formatDate(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+}
+
+interface CalendarEvent {
+    uid: string;
+    summary: string;
+    description?: string;
+    /** DTSTART and DTEND or DURATION lines */
+    timing: string[];
+    rrule?: string;
+}
+
+/**
+ * The contact's due date as an event repeating at its frequency. Timed
+ * dates become half-hour events at the exact instant; dates without a
+ * time become all-day events.
+ */
+function nextContactEvent(contact: Contact, uid: string, options: CalendarOptions): CalendarEvent | null {
+    const value = contact.next_contact;
+    const date = parseDate(value);
+    if (!value || !date) return null;
+
+    const timing = hasTime(value)
+        ? [`DTSTART:${formatDateTime(date)}`, 'DURATION:PT30M']
+        : [
+            `DTSTART;VALUE=DATE:${formatDate(date.getFullYear(), date.getMonth() + 1, date.getDate())}`,
+            `DTEND;VALUE=DATE:${nextDay(date.getFullYear(), date.getMonth() + 1, date.getDate())}`,
+        ];
+    const frequency = parseFrequency(resolveFrequency(contact, options.tagFrequencies));
+    const details = [
+        contact.last_contacted ? `Last contacted: ${contact.last_contacted.slice(0, 10)}` : 'Not contacted yet',
+        frequency ? `Frequency: ${formatFrequency(frequency)}` : '',
+        contact.emails?.[0]?.value || '',
+        contact.phones?.[0]?.value || '',
+    ];
+    return {
+        uid: `${uid}-next-contact`,
+        summary: `Get in touch with ${contact.name}`,
+        description: details.filter(line => line).join('\n'),
+        timing,
+        rrule: frequency ? `FREQ=${RRULE_FREQ[frequency.unit]};INTERVAL=${frequency.count}` : undefined,
+    };
+}
+
+// A yearly all-day event; Feb 29 falls on Feb 28 in other years, as in the app
+function anniversaryEvent(uid: string, summary: string, value?: string): CalendarEvent | null {
+    const date = parseMonthDay(value);
+    if (!date) return null;
+    const year = date.year ?? YEARLESS_YEAR;
+    const leapDay = date.month === 2 && date.day === 29;
+    return {
+        uid,
+        summary,
+        timing: [
+            `DTSTART;VALUE=DATE:${formatDate(year, date.month, date.day)}`,
+            `DTEND;VALUE=DATE:${nextDay(year, date.month, date.day)}`,
+        ],
+        rrule: leapDay ? 'FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=-1' : 'FREQ=YEARLY',
+    };
+}
+
+function contactEvents(contact: Contact, options: CalendarOptions): CalendarEvent[] {
+    // Ids never change, so re-importing the file updates the same events
+    const uid = contact.id || slugify(contact.path || contact.name);
+    const events = [
+        nextContactEvent(contact, uid, options),
+        anniversaryEvent(`${uid}-birthday`, `${contact.name}'s birthday`, contact.birthday),
+    ];
+    const used = new Set<string>();
+    (contact.important_dates || []).forEach(date => {
+        // Dates are told apart by label; repeated labels get a counter
+        const base = `${uid}-date-${slugify(date.label).toLowerCase() || 'date'}`;
+        let dateUid = base;
+        for (let i = 2; used.has(dateUid); i++) dateUid = `${base}-${i}`;
+        used.add(dateUid);
+        events.push(anniversaryEvent(dateUid, `${contact.name}: ${date.label || 'Important date'}`, date.date));
+    });
+    return events.filter((event): event is CalendarEvent => event !== null);
+}
+
+/**
+ * Serialize the contacts' next contact dates, birthdays and important dates
+ * as an iCalendar file. Each event's UID comes from the contact's id, and
+ * DTSTAMP from when the contact was last modified, so exporting unchanged
+ * contacts again gives the same file.
+ */
+export function contactsToICalendar(contacts: Contact[], options: CalendarOptions): string {
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${PRODUCT_ID}`,
+        'CALSCALE:GREGORIAN',
+        'X-WR-CALNAME:Contacts',
+    ];
+
+    contacts.forEach(contact => {
+        const stamp = formatDateTime(parseDate(contact.modified) || parseDate(contact.created) || new Date(0));
+        const url = options.noteUrl?.(contact);
+        contactEvents(contact, options).forEach(event => {
+            lines.push('BEGIN:VEVENT', `UID:${event.uid}@${UID_DOMAIN}`, `DTSTAMP:${stamp}`, ...event.timing);
+            if (event.rrule) lines.push(`RRULE:${event.rrule}`);
+            lines.push(`SUMMARY:${escapeText(event.summary)}`);
+            if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+            if (url) lines.push(`URL:${url}`);
+            lines.push('TRANSP:TRANSPARENT', 'END:VEVENT');
+        });
+    });
+
+    lines.push('END:VCALENDAR');
+    return lines.map(fold).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,43 @@
+import { Contact } from './types';
+
+/**
+ * A random id for the `id` frontmatter field. It never changes, so it keeps
+ * identifying the contact when the file is renamed or moved.
+ */
+export function generateContactId(): string {
+    if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+        return crypto.randomUUID();
+    }
+    const random = () => Math.random().toString(36).slice(2, 10);
+    return `${Date.now().toString(36)}-${random()}${random()}`;
+}
+
+/**
+ * Turn text into a file name segment. Letters and digits of any script are
+ * kept; everything else (including characters not allowed in file names)
+ * collapses into single dashes.
+ */
+export function slugify(text: string): string {
+    return text
+        .normalize('NFC')
+        .replace(/[^\p{L}\p{M}\p{N}]+/gu, '-')
+        .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Fill a file name template such as "{{name}}" or "{{company}}/{{name}}"
+ * with contact fields. Each path segment is slugged separately, so a template
+ * can place contacts in subfolders. Returns the path without extension.
+ */
+export function renderFileNameTemplate(template: string, contact: Partial<Contact>): string {
+    const fields = contact as Record<string, unknown>;
+    const segments = (template || '{{name}}')
+        .split('/')
+        .map(segment => slugify(segment.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key: string) => {
+            const value = fields[key];
+            return typeof value === 'string' || typeof value === 'number' ? String(value) : '';
+        })))
+        .filter(segment => segment);
+    const fileName = segments.pop();
+    return fileName ? [...segments, fileName].join('/') : slugify(contact.name || '') || 'Contact';
+}
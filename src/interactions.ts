@@ -0,0 +1,94 @@
+import { Interaction, INTERACTION_CHANNELS, InteractionChannel } from './types';
+
+export const INTERACTIONS_HEADING = '## Interactions';
+
+const ENTRY_REGEX = /^[-*]\s+(\d{4}-\d{2}-\d{2})(?:[ T](\d{2}:\d{2}))?\s*(?:\((\w+)\))?\s*:?\s*(.*)$/;
+
+function isChannel(value: string): value is InteractionChannel {
+    return (INTERACTION_CHANNELS as string[]).includes(value);
+}
+
+// Lines of the interactions section, from the heading up to the next heading
+function findSection(lines: string[]): { start: number; end: number } | null {
+    const start = lines.findIndex(line => line.trim().toLowerCase() === INTERACTIONS_HEADING.toLowerCase());
+    if (start === -1) return null;
+    let end = start + 1;
+    while (end < lines.length && !/^#{1,2}\s/.test(lines[end])) end++;
+    return { start, end };
+}
+
+export function parseInteraction(line: string): Interaction | null {
+    const match = line.trim().match(ENTRY_REGEX);
+    if (!match) return null;
+    const [, day, time, channel, summary] = match;
+    return {
+        date: time ? `${day}T${time}` : day,
+        channel: channel && isChannel(channel.toLowerCase()) ? channel.toLowerCase() as InteractionChannel : undefined,
+        summary: summary.trim(),
+    };
+}
+
+export function formatInteraction(interaction: Interaction): string {
+    const date = interaction.date.replace('T', ' ');
+    const channel = interaction.channel ? ` (${interaction.channel})` : '';
+    const summary = interaction.summary ? `: ${interaction.summary.replace(/\s*\n\s*/g, ' ')}` : '';
+    return `- ${date}${channel}${summary}`;
+}
+
+/**
+ * Read the interaction log from a contact's body, newest first.
+ */
+export function parseInteractions(body: string): Interaction[] {
+    const lines = body.split('\n');
+    const section = findSection(lines);
+    if (!section) return [];
+
+    return lines
+        .slice(section.start + 1, section.end)
+        .map(parseInteraction)
+        .filter((entry): entry is Interaction => entry !== null)
+        .sort((a, b) => b.date.localeCompare(a.date));
+}
+
+/**
+ * The body without its interaction log, heading included.
+ */
+export function removeInteractions(body: string): string {
+    const lines = body.split('\n');
+    const section = findSection(lines);
+    if (!section) return body;
+    lines.splice(section.start, section.end - section.start);
+    return lines.join('\n');
+}
+
+/**
+ * Insert an entry into the body's interaction log, keeping it sorted newest
+ * first. The section is appended to the end of the body if it doesn't exist.
+ */
+export function addInteraction(body: string, interaction: Interaction): string {
+    const entry = formatInteraction(interaction);
+    const lines = body.split('\n');
+    const section = findSection(lines);
+
+    if (!section) {
+        const trimmed = body.replace(/\s+$/, '');
+        return `${trimmed}${trimmed ? '\n\n' : ''}${INTERACTIONS_HEADING}\n\n${entry}\n`;
+    }
+
+    // Before the first entry that is older than the new one
+    let index = section.start + 1;
+    while (index < section.end && lines[index].trim() === '') index++;
+    const firstEntry = index;
+    for (; index < section.end; index++) {
+        const existing = parseInteraction(lines[index]);
+        if (existing && existing.date < interaction.date) break;
+        if (!existing && lines[index].trim() === '') break;
+    }
+    if (firstEntry === section.end) {
+        // Empty section: keep a blank line after the heading
+        lines.splice(section.start + 1, section.end - section.start - 1, '', entry, '');
+    } else {
+        lines.splice(index, 0, entry);
+    }
+    return lines.join('\n');
+}
@@ -0,0 +1,115 @@
+import { App, MetadataCache, TFile } from 'obsidian';
+import { Contact } from './types';
+import { toLocalDate } from './dates';
+
+/** A note outside the contacts that links to or names a contact */
+export interface Mention {
+    file: TFile;
+    /** YYYY-MM-DD from a daily-note style file name or a `date` property */
+    date: string | null;
+    snippet: string;
+    /** Whether the note links to the contact, rather than just naming them */
+    linked: boolean;
+}
+
+const DATE_IN_NAME_REGEX = /(\d{4}-\d{2}-\d{2})/;
+const SNIPPET_LENGTH = 160;
+
+/**
+ * The date a note is about: a YYYY-MM-DD in its file name, as daily notes
+ * have, or its `date` property.
+ */
+export function noteDate(file: TFile, metadataCache: MetadataCache): string | null {
+    const fromName = file.basename.match(DATE_IN_NAME_REGEX);
+    if (fromName) return fromName[1];
+    const date = metadataCache.getFileCache(file)?.frontmatter?.date;
+    const match = typeof date === 'string' ? date.match(/^(\d{4}-\d{2}-\d{2})/) : null;
+    return match ? match[1] : null;
+}
+
+// Paths of the notes whose resolved links include the path
+function linkingPaths(metadataCache: MetadataCache, path: string): string[] {
+    return Object.keys(metadataCache.resolvedLinks)
+        .filter(source => source !== path && metadataCache.resolvedLinks[source][path]);
+}
+
+/**
+ * The newest date of a dated note that links to the contact, not counting
+ * notes dated in the future. Used to treat daily-note mentions as contact.
+ */
+export function latestMentionDate(app: App, path: string, isContactPath: (path: string) => boolean, now: Date = new Date()): string | null {
+    const today = toLocalDate(now);
+    let latest: string | null = null;
+    linkingPaths(app.metadataCache, path).forEach(source => {
+        if (isContactPath(source)) return;
+        const file = app.vault.getAbstractFileByPath(source);
+        const date = file instanceof TFile ? noteDate(file, app.metadataCache) : null;
+        if (date && date <= today && (!latest || date > latest)) latest = date;
+    });
+    return latest;
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// `index` is the column in the line as written, before indentation and list or heading markers are cut
+function snippetAround(line: string, index: number): string {
+    const prefix = line.match(/^\s*(?:[-*+]\s+|#+\s+)?/)?.[0] || '';
+    const trimmed = line.slice(prefix.length).trim();
+    if (trimmed.length <= SNIPPET_LENGTH) return trimmed;
+    const column = index - prefix.length;
+    const start = Math.max(0, Math.min(column - SNIPPET_LENGTH / 2, trimmed.length - SNIPPET_LENGTH));
+    return `${start > 0 ? '…' : ''}${trimmed.slice(start, start + SNIPPET_LENGTH)}…`;
+}
+
+/**
+ * Every note outside the contacts that links to the contact's file, newest
+ * first, found through the resolved links. With `includeUnlinked`, every
+ * note is also searched for the contact's name, which reads the whole vault.
+ * Each note appears once, with the first line that mentions the contact as
+ * its snippet.
+ */
+export async function findMentions(app: App, contact: Contact, contacts: Contact[], includeUnlinked = false): Promise<Mention[]> {
+    const { vault, metadataCache } = app;
+    const contactPaths = new Set(contacts.map(c => c.path));
+    const linked = new Set(contact.path ? linkingPaths(metadataCache, contact.path) : []);
+    const nameRegex = contact.name.trim()
+        ? new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(contact.name.trim())}(?![\\p{L}\\p{N}])`, 'iu')
+        : null;
+    const files = includeUnlinked
+        ? vault.getMarkdownFiles()
+        : Array.from(linked)
+            .map(path => vault.getAbstractFileByPath(path))
+            .filter((file): file is TFile => file instanceof TFile && file.extension === 'md');
+
+    const mentions: Mention[] = [];
+    for (const file of files) {
+        if (contactPaths.has(file.path)) continue;
+        const isLinked = linked.has(file.path);
+        if (!isLinked && !nameRegex) continue;
+
+        const lines = (await vault.cachedRead(file)).split('\n');
+        let snippet: string | null = null;
+        if (isLinked) {
+            const link = (metadataCache.getFileCache(file)?.links || []).find(l =>
+                metadataCache.getFirstLinkpathDest(l.link.split('#')[0], file.path)?.path === contact.path);
+            if (link) snippet = snippetAround(lines[link.position.start.line] || '', link.position.start.col);
+        }
+        if (snippet === null && nameRegex) {
+            for (const line of lines) {
+                const match = line.match(nameRegex);
+                if (match && match.index !== undefined) {
+                    snippet = snippetAround(line, match.index);
+                    break;
+                }
+            }
+        }
+        if (snippet === null && !isLinked) continue;
+
+        mentions.push({ file, date: noteDate(file, metadataCache), snippet: snippet || '', linked: isLinked });
+    }
+
+    const sortKey = (mention: Mention) => mention.date || toLocalDate(new Date(mention.file.stat.mtime));
+    return mentions.sort((a, b) => sortKey(b).localeCompare(sortKey(a)));
+}
@@ -0,0 +1,81 @@
+import { MetadataCache } from 'obsidian';
+import { Contact, Relationship } from './types';
+
+/**
+ * Relationship types offered in the editor, each with the type the other
+ * person gets when reverse links are added. Other types can be typed in;
+ * they just get no reverse link.
+ */
+export const RELATIONSHIP_TYPES: Record<string, string> = {
+    spouse: 'spouse',
+    partner: 'partner',
+    parent: 'child',
+    child: 'parent',
+    sibling: 'sibling',
+    relative: 'relative',
+    household: 'household',
+    friend: 'friend',
+    colleague: 'colleague',
+    manager: 'report',
+    report: 'manager',
+    mentor: 'mentee',
+    mentee: 'mentor',
+};
+
+export function inverseRelationship(type: string): string | null {
+    return RELATIONSHIP_TYPES[type.trim().toLowerCase()] || null;
+}
+
+const WIKILINK_REGEX = /^\s*\[\[([^\]|#]+)(?:#[^\]|]*)?(?:\|([^\]]*))?\]\]\s*$/;
+
+/**
+ * The link path of a "[[path|alias]]" value, or null if it isn't a wikilink.
+ */
+export function wikilinkPath(link: string): string | null {
+    const match = link.match(WIKILINK_REGEX);
+    return match ? match[1].trim() : null;
+}
+
+export function formatWikilink(linktext: string, alias?: string): string {
+    return alias && alias !== linktext ? `[[${linktext}|${alias}]]` : `[[${linktext}]]`;
+}
+
+/**
+ * The contact a relationship link points at, resolved the way Obsidian
+ * resolves links from the contact's own file.
+ */
+export function findLinkedContact(link: string, sourcePath: string, contacts: Contact[], metadataCache: MetadataCache): Contact | null {
+    const linkpath = wikilinkPath(link);
+    if (!linkpath) return null;
+    const file = metadataCache.getFirstLinkpathDest(linkpath, sourcePath);
+    return file ? contacts.find(c => c.path === file.path) || null : null;
+}
+
+export interface RelatedContact {
+    type: string;
+    contact: Contact;
+}
+
+/**
+ * Everyone the contact links to, plus those linking to the contact that it
+ * doesn't link back to, with the relationship seen from the contact's side.
+ */
+export function getRelatedContacts(contact: Contact, contacts: Contact[], metadataCache: MetadataCache): RelatedContact[] {
+    const related: RelatedContact[] = [];
+    const sourcePath = contact.path || '';
+
+    (contact.relationships || []).forEach(relationship => {
+        const other = findLinkedContact(relationship.contact, sourcePath, contacts, metadataCache);
+        if (other) related.push({ type: relationship.type, contact: other });
+    });
+
+    contacts.forEach(other => {
+        if (other === contact || related.some(r => r.contact === other)) return;
+        (other.relationships || []).forEach((relationship: Relationship) => {
+            if (findLinkedContact(relationship.contact, other.path || '', contacts, metadataCache) !== contact) return;
+            related.push({ type: inverseRelationship(relationship.type) || relationship.type, contact: other });
+        });
+    });
+
+    return related;
+}
@@ -0,0 +1,133 @@
+import { Notice } from 'obsidian';
+import { Contact, ContactsPluginSettings } from './types';
+import { getUpcomingDates, UpcomingDate } from './birthdays';
+import { dateTime } from './dates';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DueContacts {
+    overdue: Contact[];
+    upcoming: Contact[];
+    /** Birthdays and important dates within the lead time */
+    dates: UpcomingDate[];
+}
+
+/**
+ * Split contacts into those whose next_contact has passed and those due
+ * within the lead time, each sorted by next_contact, plus the birthdays and
+ * important dates coming up within the lead time.
+ */
+export function getDueContacts(contacts: Contact[], leadDays: number, now: Date = new Date()): DueContacts {
+    const due: DueContacts = { overdue: [], upcoming: [], dates: getUpcomingDates(contacts, leadDays, now) };
+    const horizon = now.getTime() + leadDays * DAY_MS;
+
+    for (const contact of contacts) {
+        if (!contact.next_contact) continue;
+        const next = dateTime(contact.next_contact);
+        if (next === null) continue;
+        if (next <= now.getTime()) due.overdue.push(contact);
+        else if (next <= horizon) due.upcoming.push(contact);
+    }
+
+    const byNext = (a: Contact, b: Contact) => (dateTime(a.next_contact) || 0) - (dateTime(b.next_contact) || 0);
+    due.overdue.sort(byNext);
+    due.upcoming.sort(byNext);
+    return due;
+}
+
+function minutesOfDay(time: string): number | null {
+    const match = time.match(/^(\d{1,2}):(\d{2})$/);
+    if (!match) return null;
+    return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * Whether `now` falls between the quiet hours start and end, which may wrap
+ * past midnight. Quiet hours are off unless both ends are set.
+ */
+export function isQuietTime(start: string, end: string, now: Date = new Date()): boolean {
+    const from = minutesOfDay(start);
+    const to = minutesOfDay(end);
+    if (from === null || to === null || from === to) return false;
+    const current = now.getHours() * 60 + now.getMinutes();
+    return from < to ? current >= from && current < to : current >= from || current < to;
+}
+
+export class ReminderManager {
+    private intervalId: number | null = null;
+    // Contacts already announced in a notice, so each check only reports new ones
+    private notified = new Set<string>();
+    // Set after a background check fails, so a lasting problem is reported once
+    private failing = false;
+
+    constructor(
+        private statusBarEl: HTMLElement,
+        private getContacts: () => Promise<Contact[]>,
+        private getSettings: () => ContactsPluginSettings,
+    ) {
+        this.statusBarEl.addClass('contacts-reminder-status');
+        this.statusBarEl.hide();
+    }
+
+    /**
+     * Run a check now and then at the configured interval. Calling it again
+     * restarts the timer with the current settings.
+     */
+    start() {
+        this.stop();
+        this.checkInBackground();
+        const minutes = Math.max(1, this.getSettings().reminderIntervalMinutes);
+        this.intervalId = window.setInterval(() => this.checkInBackground(), minutes * 60 * 1000);
+    }
+
+    private checkInBackground() {
+        this.check()
+            .then(() => this.failing = false)
+            .catch(error => {
+                if (this.failing) return;
+                this.failing = true;
+                console.error('Error checking contact reminders:', error);
+                new Notice(`Could not check contact reminders: ${error instanceof Error ? error.message : error}`);
+            });
+    }
+
+    stop() {
+        if (this.intervalId !== null) {
+            window.clearInterval(this.intervalId);
+            this.intervalId = null;
+        }
+    }
+
+    async check(): Promise<DueContacts> {
+        const settings = this.getSettings();
+        const due = getDueContacts(await this.getContacts(), settings.reminderLeadDays);
+        const count = due.overdue.length + due.upcoming.length;
+
+        this.statusBarEl.setText(count
+            ? `${count} ${count === 1 ? 'contact' : 'contacts'} due`
+            : `${due.dates.length} upcoming ${due.dates.length === 1 ? 'date' : 'dates'}`);
+        this.statusBarEl.setAttr('aria-label', `${due.overdue.length} overdue, ${due.upcoming.length} due within ${settings.reminderLeadDays} days, ${due.dates.length} upcoming dates`);
+        if (count || due.dates.length) this.statusBarEl.show();
+        else this.statusBarEl.hide();
+
+        const dueNames = new Set([
+            ...[...due.overdue, ...due.upcoming].map(c => c.name),
+            ...due.dates.map(d => `${d.contact.name}|${d.label}`),
+        ]);
+        const fresh = [...dueNames].filter(name => !this.notified.has(name));
+        if (settings.reminderNotices && fresh.length && !isQuietTime(settings.quietHoursStart, settings.quietHoursEnd)) {
+            const parts = [];
+            if (due.overdue.length) parts.push(`${due.overdue.length} overdue`);
+            if (due.upcoming.length) parts.push(`${due.upcoming.length} due soon`);
+            if (due.dates.length) parts.push(`${due.dates.length} upcoming ${due.dates.length === 1 ? 'date' : 'dates'}`);
+            new Notice(`Contacts: ${parts.join(', ')}`);
+            fresh.forEach(name => this.notified.add(name));
+        }
+        // Forget contacts that are no longer due so they are announced again next time
+        this.notified.forEach(name => {
+            if (!dueNames.has(name)) this.notified.delete(name);
+        });
+
+        return due;
+    }
+}
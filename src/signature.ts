@@ -0,0 +1,121 @@
+import { Contact, LabeledValue } from './types';
+import { isValidPhone } from './contactDetails';
+
+const EMAIL_REGEX = /[^\s<>()[\]@,;:"']+@[^\s<>()[\]@,;:"']+\.[a-z]{2,}/gi;
+const PHONE_REGEX = /\+?\(?\d[\d\s().\-/]{5,}\d/g;
+const URL_REGEX = /\b(?:https?:\/\/|www\.)\S+/gi;
+// "Tel:", "M:", "Email:" and the like, left behind once the values are taken out
+const FIELD_LABEL_REGEX = /\b(?:e-?mail|tel|telephone|phone|mobile|cell|office|direct|fax|web|website|home|work|[etmpofdwh])\s*:/gi;
+const BARE_LABEL_REGEX = /^(?:e-?mail|tel|telephone|phone|mobile|mob|cell|office|direct|fax|web|website|home|work)[\s.-]*$/i;
+// Sign-offs and separators that come before the signature itself
+const CLOSING_REGEX = /^(?:--+|—|_+|best|best regards|regards|kind regards|warm regards|cheers|thanks|thank you|many thanks|sincerely|yours|all the best|sent from\b.*)[,!.]?$/i;
+const TITLE_REGEX = /\b(?:ceo|cto|cfo|coo|cmo|founder|co-founder|president|vp|vice president|director|manager|head|lead|engineer|developer|designer|consultant|analyst|officer|partner|associate|specialist|coordinator|architect|scientist|researcher|professor|editor|writer|recruiter|owner|chair|advisor|adviser|representative|executive|assistant|intern|administrator|accountant|attorney|lawyer|producer)\b/i;
+const COMPANY_REGEX = /\b(?:inc|llc|llp|ltd|limited|gmbh|ag|sa|sas|bv|nv|plc|pty|corp|corporation|co|company|group|holdings|labs?|studios?|agency|partners|ventures|university|institute|foundation)\b\.?$/i;
+const NAME_REGEX = /^\p{Lu}[\p{L}\p{M}'’.-]*(?:\s+\p{Lu}[\p{L}\p{M}'’.-]*){1,3}$/u;
+// Mail providers whose domain says nothing about the company
+const FREE_MAIL_DOMAINS = [
+    'gmail', 'googlemail', 'outlook', 'hotmail', 'live', 'msn', 'yahoo', 'icloud', 'me', 'mac',
+    'aol', 'proton', 'protonmail', 'gmx', 'web', 'mail', 'yandex', 'zoho', 'fastmail', 'hey',
+];
+
+function phoneLabel(prefix: string): string {
+    if (/\b(?:mobile|mob|cell|m)\s*[:.-]?\s*$/i.test(prefix)) return 'mobile';
+    if (/\b(?:fax|f)\s*[:.-]?\s*$/i.test(prefix)) return 'fax';
+    if (/\b(?:home|h)\s*[:.-]?\s*$/i.test(prefix)) return 'home';
+    if (/\b(?:office|o|direct|d|work)\s*[:.-]?\s*$/i.test(prefix)) return 'work';
+    return '';
+}
+
+function titleCase(word: string): string {
+    return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+// "jane.doe@…" → "Jane Doe"; null when the address isn't obviously a name
+function nameFromEmail(email: string): string | null {
+    const parts = email.split('@')[0].split(/[._]/).filter(part => /^[a-z]{2,}$/i.test(part));
+    return parts.length >= 2 && parts.length <= 3 ? parts.map(part => titleCase(part.toLowerCase())).join(' ') : null;
+}
+
+// "acme-widgets.co.uk" → "Acme Widgets"
+function companyFromEmail(email: string): string | null {
+    const labels = email.split('@')[1].toLowerCase().split('.');
+    const name = labels.length > 2 && labels[labels.length - 2].length <= 3 ? labels[labels.length - 3] : labels[labels.length - 2];
+    if (!name || FREE_MAIL_DOMAINS.indexOf(name) !== -1) return null;
+    return name.split('-').map(titleCase).join(' ');
+}
+
+/**
+ * Guess a contact from an email signature or other pasted contact details:
+ * email addresses and phone numbers are picked out wherever they are, and
+ * the remaining lines are read as name, job title and company. Meant for
+ * prefilling the new contact form, so it errs towards leaving fields empty.
+ */
+export function parseSignature(text: string): Partial<Contact> {
+    const emails: LabeledValue[] = [];
+    const phones: LabeledValue[] = [];
+    const lines: string[] = [];
+    let name: string | undefined;
+
+    text.split(/\r?\n/).forEach(line => {
+        // "Jane Doe <jane@example.com>"
+        const addressed = line.match(/^\s*"?([^"<>@]+?)"?\s*<[^<>]+@[^<>]+>/);
+        if (addressed && !name && NAME_REGEX.test(addressed[1].trim())) name = addressed[1].trim();
+
+        let rest = line
+            .replace(EMAIL_REGEX, email => {
+                if (!emails.some(e => e.value.toLowerCase() === email.toLowerCase())) emails.push({ label: '', value: email });
+                return ' ';
+            })
+            .replace(URL_REGEX, ' ');
+        rest = rest.replace(PHONE_REGEX, (phone, offset: number) => {
+            const value = phone.trim();
+            if (!isValidPhone(value) || value.replace(/\D/g, '').length < 7) return phone;
+            if (!phones.some(p => p.value === value)) phones.push({ label: phoneLabel(rest.slice(0, offset)), value });
+            return ' ';
+        });
+
+        // "Jane Doe | Head of Sales | Acme" puts several fields on one line
+        rest.replace(FIELD_LABEL_REGEX, ' ').split(/\s+[|·•]\s+|\s{3,}/).forEach(part => {
+            const cleaned = part.replace(/^[\s<>()[\],;:|·•-]+|[\s<>()[\],;:|·•-]+$/g, '');
+            if (!/\p{L}/u.test(cleaned) || CLOSING_REGEX.test(cleaned) || BARE_LABEL_REGEX.test(cleaned)) return;
+            lines.push(cleaned);
+        });
+    });
+
+    const isName = (line: string) => NAME_REGEX.test(line) && !TITLE_REGEX.test(line) && !COMPANY_REGEX.test(line);
+    if (!name) name = lines.find(isName) || (emails.length ? nameFromEmail(emails[0].value) || undefined : undefined);
+
+    let title: string | undefined;
+    let company: string | undefined;
+    const rest = lines.filter(line => line !== name);
+    const titleLine = rest.find(line => TITLE_REGEX.test(line) && !/\d/.test(line));
+    if (titleLine) {
+        // "Head of Sales at Acme" or "Engineer, Acme Inc."
+        const at = titleLine.match(/^(.+?)\s+(?:at|@)\s+(.+)$/);
+        const comma = titleLine.match(/^(.+?),\s+(.+)$/);
+        const split = at || (comma && COMPANY_REGEX.test(comma[2]) ? comma : null);
+        if (split) {
+            title = split[1];
+            company = split[2];
+        } else {
+            title = titleLine;
+        }
+    }
+    if (!company) {
+        // A line that names a company, else the line right after the title
+        company = rest.find(line => line !== titleLine && COMPANY_REGEX.test(line));
+        if (!company && titleLine) {
+            const next = rest[rest.indexOf(titleLine) + 1];
+            if (next && !/\d/.test(next) && !TITLE_REGEX.test(next)) company = next;
+        }
+    }
+    if (!company && emails.length) company = companyFromEmail(emails[0].value) || undefined;
+
+    const contact: Partial<Contact> = {};
+    if (name) contact.name = name;
+    if (emails.length) contact.emails = emails;
+    if (phones.length) contact.phones = phones;
+    if (title) contact.title = title;
+    if (company) contact.company = company;
+    return contact;
+}
@@ -0,0 +1,60 @@
+import { Contact } from './types';
+import { formatAddress } from './contactDetails';
+
+/** Body of new contact notes when no template file is set */
+export const DEFAULT_CONTACT_TEMPLATE = '# {{name}}\n';
+
+const PLACEHOLDER_REGEX = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+// Contact fields a placeholder can name directly; custom field keys work too
+const TEMPLATE_FIELDS = [
+    'id', 'name', 'company', 'title', 'notes', 'tags', 'groups', 'avatar', 'birthday',
+    'created', 'modified', 'last_contacted', 'next_contact', 'contact_frequency',
+];
+
+// Placeholders for the list fields, which aren't plain values
+const LIST_PLACEHOLDERS: Record<string, (contact: Contact) => unknown> = {
+    email: contact => contact.emails?.[0]?.value,
+    phone: contact => contact.phones?.[0]?.value,
+    url: contact => contact.urls?.[0]?.value,
+    address: contact => contact.addresses?.[0] && formatAddress(contact.addresses[0]),
+    emails: contact => contact.emails?.map(item => item.value),
+    phones: contact => contact.phones?.map(item => item.value),
+    urls: contact => contact.urls?.map(item => item.value),
+    addresses: contact => contact.addresses?.map(formatAddress),
+};
+
+/**
+ * Replace `{{field}}` placeholders with the contact's values: any contact
+ * field or custom field key, plus `{{email}}`, `{{phone}}`, `{{url}}` and
+ * `{{address}}` for the primary entry of each list. Lists are joined with
+ * commas and missing values become empty. Anything else, such as
+ * Templater's `<% %>` tags or the core `{{date}}`, is left for the plugin
+ * that owns it.
+ */
+export function renderPlaceholders(text: string, contact: Contact, customKeys: string[] = []): string {
+    return text.replace(PLACEHOLDER_REGEX, (placeholder, key: string) => {
+        let value: unknown;
+        if (Object.prototype.hasOwnProperty.call(LIST_PLACEHOLDERS, key)) value = LIST_PLACEHOLDERS[key](contact);
+        else if (TEMPLATE_FIELDS.indexOf(key) !== -1) value = (contact as unknown as Record<string, unknown>)[key];
+        else if (customKeys.indexOf(key) !== -1) value = contact.custom?.[key];
+        else return placeholder;
+        if (value === undefined || value === null) return '';
+        return Array.isArray(value) ? value.join(', ') : String(value);
+    });
+}
+
+/**
+ * Fill placeholders in the string values of a template's frontmatter,
+ * including strings inside lists.
+ */
+export function renderTemplateFields(fields: Record<string, unknown>, contact: Contact, customKeys: string[] = []): Record<string, unknown> {
+    const render = (value: unknown): unknown => {
+        if (typeof value === 'string') return renderPlaceholders(value, contact, customKeys);
+        if (Array.isArray(value)) return value.map(render);
+        return value;
+    };
+    const rendered: Record<string, unknown> = {};
+    Object.keys(fields).forEach(key => rendered[key] = render(fields[key]));
+    return rendered;
+}
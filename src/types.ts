@@ -1,26 +1,215 @@
+export type InteractionChannel = 'call' | 'email' | 'meeting' | 'message';
+
+export const INTERACTION_CHANNELS: InteractionChannel[] = ['call', 'email', 'meeting', 'message'];
+
+/**
+ * One entry of the "## Interactions" section in a contact's body, written as
+ * `- YYYY-MM-DD HH:mm (channel): summary`.
+ */
+export interface Interaction {
+    /** Local time as YYYY-MM-DDTHH:mm, or YYYY-MM-DD when no time was written */
+    date: string;
+    channel?: InteractionChannel;
+    summary: string;
+}
+
+/** An email, phone number or URL with a label such as "work" or "home" */
+export interface LabeledValue {
+    label: string;
+    value: string;
+}
+
+export interface PostalAddress {
+    label: string;
+    street?: string;
+    city?: string;
+    region?: string;
+    postal_code?: string;
+    country?: string;
+}
+
+/** A typed link to another contact, such as spouse or colleague */
+export interface Relationship {
+    type: string;
+    /** Wikilink to the other contact's file, e.g. "[[Jane Doe]]" */
+    contact: string;
+}
+
+export interface ImportantDate {
+    label: string;
+    /** YYYY-MM-DD, or --MM-DD when the year is unknown */
+    date: string;
+}
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'boolean' | 'select' | 'list' | 'link';
+
+export const CUSTOM_FIELD_TYPES: CustomFieldType[] = ['text', 'number', 'date', 'boolean', 'select', 'list', 'link'];
+
+/** A field defined in the settings, stored under its key in frontmatter */
+export interface CustomFieldDefinition {
+    key: string;
+    label: string;
+    type: CustomFieldType;
+    required?: boolean;
+    /** Choices of a select field */
+    options?: string[];
+    showInTable?: boolean;
+    showInFilters?: boolean;
+}
+
+/** Dates are YYYY-MM-DD and links are [[wikilinks]] */
+export type CustomFieldValue = string | number | boolean | string[];
+
+/**
+ * A contact note. Every field except `path`, `archived`, `body` and `interactions` is
+ * stored in the file's frontmatter and written back by ContactManager; `body`
+ * is the markdown below the frontmatter, which the plugin never rewrites
+ * apart from appending to the interaction log.
+ */
 export interface Contact {
+    /** Stable identifier; files are looked up by id, never by name */
+    id?: string;
+    /** Where the contact was read from; not stored in frontmatter */
+    readonly path?: string;
+    /** Whether the file is in the archive folder; not stored in frontmatter */
+    readonly archived?: boolean;
     name: string;
-    email?: string;
-    phone: string;
+    /** The first entry of each list is the primary one */
+    emails?: LabeledValue[];
+    phones?: LabeledValue[];
+    addresses?: PostalAddress[];
+    /** Websites and social profiles */
+    urls?: LabeledValue[];
     company?: string;
     title?: string;
     notes?: string;
     tags?: string[];
+    /** Named circles such as a household or a club */
+    groups?: string[];
+    relationships?: Relationship[];
+    /** Image path in the vault, [[wikilink]] or URL */
+    avatar?: string;
+    /** YYYY-MM-DD, or --MM-DD when the year is unknown */
+    birthday?: string;
+    important_dates?: ImportantDate[];
+    /**
+     * Timestamps are local time with their UTC offset (see dates.ts); older
+     * files may have UTC ISO strings or plain local YYYY-MM-DD[THH:mm]
+     */
     created: string;
     modified: string;
     last_contacted?: string;
     next_contact?: string;
     contact_frequency?: string;
+    /** Values of the custom fields defined in the settings, by key */
+    custom?: Record<string, CustomFieldValue>;
+    readonly body?: string;
+    /** Parsed from the body, newest first */
+    readonly interactions?: Interaction[];
+}
+
+export interface TagFrequency {
+    tag: string;
+    frequency: string;
+}
+
+export type ContactSortKey = 'name' | 'email' | 'phone' | 'birthday' | 'last_contacted' | 'next_contact' | 'contact_frequency'
+    | `custom:${string}`;
+
+export type DueFilter = 'overdue' | 'due_this_week' | 'never_contacted';
+
+/**
+ * Search, filter and sort state of the contacts view, kept in plugin data so
+ * it survives reloads.
+ */
+export interface ContactViewState {
+    search: string;
+    sortKey: ContactSortKey;
+    sortDirection: 'asc' | 'desc';
+    tags: string[];
+    groups: string[];
+    companies: string[];
+    frequencies: string[];
+    /** Selected values of custom field filters, by field key */
+    custom: Record<string, string[]>;
+    due: DueFilter | '';
+    /** Include archived contacts in the list */
+    showArchived: boolean;
 }
 
+export const DEFAULT_VIEW_STATE: ContactViewState = {
+    search: '',
+    sortKey: 'name',
+    sortDirection: 'asc',
+    tags: [],
+    groups: [],
+    companies: [],
+    frequencies: [],
+    custom: {},
+    due: '',
+    showArchived: false,
+};
+
 export interface ContactsPluginSettings {
     contactsFolder: string;
+    /** New contact file path inside contactsFolder, e.g. "{{company}}/{{name}}" */
+    fileNameTemplate: string;
+    /** Note whose content new contacts start from; empty writes just a heading */
+    contactTemplate: string;
+    /** Subfolder of contactsFolder for archived contacts */
+    archiveFolder: string;
+    /** Calling code such as "+1" used to normalize phone numbers written without one */
+    defaultCountryCode: string;
     defaultView: 'table' | 'grid';
+    /** Moment.js format for displaying dates; empty uses the locale's */
+    dateFormat: string;
     showInRibbon: boolean;
+    customFields: CustomFieldDefinition[];
+    /** Frequency for contacts without their own, by first matching tag */
+    tagFrequencies: TagFrequency[];
+    reminderNotices: boolean;
+    /** Typed before a name in the editor to suggest contacts; empty turns it off */
+    mentionTrigger: string;
+    /** A daily note linking to a contact counts as contact on that day */
+    mentionsAsInteractions: boolean;
+    /** Add the matching relationship on the other contact, e.g. parent ↔ child */
+    reverseRelationships: boolean;
+    /** Contacts due within this many days count as upcoming */
+    reminderLeadDays: number;
+    reminderIntervalMinutes: number;
+    /** Window for the upcoming birthdays list */
+    upcomingDatesDays: number;
+    /** HH:mm; no notices between start and end */
+    quietHoursStart: string;
+    quietHoursEnd: string;
+    /** Vault path of the iCalendar export */
+    calendarFile: string;
+    /** Write the calendar file again whenever contacts change */
+    calendarAutoExport: boolean;
+    viewState: ContactViewState;
 }
 
 export const DEFAULT_SETTINGS: ContactsPluginSettings = {
     contactsFolder: 'Contacts',
+    fileNameTemplate: '{{name}}',
+    contactTemplate: '',
+    archiveFolder: 'Archive',
+    defaultCountryCode: '',
     defaultView: 'table',
-    showInRibbon: true
+    dateFormat: '',
+    showInRibbon: true,
+    customFields: [],
+    tagFrequencies: [],
+    mentionTrigger: '@',
+    mentionsAsInteractions: false,
+    reverseRelationships: true,
+    reminderNotices: true,
+    reminderLeadDays: 3,
+    reminderIntervalMinutes: 60,
+    upcomingDatesDays: 30,
+    quietHoursStart: '',
+    quietHoursEnd: '',
+    calendarFile: 'Contacts.ics',
+    calendarAutoExport: false,
+    viewState: DEFAULT_VIEW_STATE,
 };
\ No newline at end of file
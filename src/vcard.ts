@@ -0,0 +1,322 @@
+import { Contact, LabeledValue, PostalAddress } from './types';
+
+interface VCardProperty {
+    name: string;
+    params: Record<string, string[]>;
+    value: string;
+}
+
+export interface VCard {
+    name: string;
+    emails: LabeledValue[];
+    phones: LabeledValue[];
+    addresses: PostalAddress[];
+    urls: LabeledValue[];
+    company?: string;
+    title?: string;
+    notes?: string;
+    tags?: string[];
+    birthday?: string;
+}
+
+// Continuation lines start with a single space or tab (RFC 6350 §3.2)
+function unfold(text: string): string[] {
+    return text
+        .replace(/\r\n/g, '\n')
+        .replace(/\r/g, '\n')
+        .replace(/\n[ \t]/g, '')
+        .split('\n');
+}
+
+function unescapeText(value: string): string {
+    return value.replace(/\\([\\;,nN])/g, (_, ch: string) => (ch === 'n' || ch === 'N') ? '\n' : ch);
+}
+
+export function escapeText(value: string): string {
+    return value
+        .replace(/\\/g, '\\\\')
+        .replace(/\r?\n/g, '\\n')
+        .replace(/,/g, '\\,')
+        .replace(/;/g, '\\;');
+}
+
+// Split on a separator, ignoring separators escaped with a backslash
+function splitEscaped(value: string, separator: string): string[] {
+    const parts: string[] = [];
+    let current = '';
+    for (let i = 0; i < value.length; i++) {
+        const ch = value[i];
+        if (ch === '\\' && i + 1 < value.length) {
+            current += ch + value[++i];
+        } else if (ch === separator) {
+            parts.push(current);
+            current = '';
+        } else {
+            current += ch;
+        }
+    }
+    parts.push(current);
+    return parts;
+}
+
+function parseProperty(line: string): VCardProperty | null {
+    // The first colon outside a quoted parameter value ends the property head
+    let inQuotes = false;
+    let colon = -1;
+    for (let i = 0; i < line.length; i++) {
+        if (line[i] === '"') inQuotes = !inQuotes;
+        else if (line[i] === ':' && !inQuotes) {
+            colon = i;
+            break;
+        }
+    }
+    if (colon === -1) return null;
+
+    const head = line.slice(0, colon);
+    const value = line.slice(colon + 1);
+    const [rawName, ...rawParams] = head.split(';');
+    // Drop the group prefix, e.g. "item1.EMAIL"
+    const name = rawName.slice(rawName.lastIndexOf('.') + 1).toUpperCase();
+
+    const params: Record<string, string[]> = {};
+    for (const param of rawParams) {
+        const eq = param.indexOf('=');
+        // vCard 2.1 allows bare types, e.g. "TEL;CELL;PREF"
+        const key = (eq === -1 ? 'TYPE' : param.slice(0, eq)).toUpperCase();
+        const rawValue = eq === -1 ? param : param.slice(eq + 1);
+        const values = rawValue.split(',').map(v => v.replace(/^"|"$/g, '').toLowerCase());
+        params[key] = (params[key] || []).concat(values);
+    }
+
+    return { name, params, value };
+}
+
+function isPreferred(prop: VCardProperty): boolean {
+    return (prop.params.TYPE || []).includes('pref') || prop.params.PREF !== undefined;
+}
+
+// TYPE values that say nothing about which email or number this is
+const GENERIC_TYPES = ['pref', 'internet', 'voice', 'x400', 'text', 'uri'];
+
+function typeLabel(prop: VCardProperty): string {
+    return (prop.params.TYPE || []).find(type => !GENERIC_TYPES.includes(type)) || '';
+}
+
+// Preferred values first, otherwise keep file order
+function preferredFirst(props: VCardProperty[]): VCardProperty[] {
+    return props
+        .filter(p => p.value.trim())
+        .sort((a, b) => Number(isPreferred(b)) - Number(isPreferred(a)));
+}
+
+function labeledValues(props: VCardProperty[]): LabeledValue[] {
+    return preferredFirst(props).map(p => ({ label: typeLabel(p), value: unescapeText(p.value).trim() }));
+}
+
+function parseAddress(prop: VCardProperty): PostalAddress | null {
+    // ADR is PO box;Extended;Street;Locality;Region;Postal code;Country
+    const [, extended, street, city, region, postalCode, country] = splitEscaped(prop.value, ';')
+        .map(part => unescapeText(part).trim());
+    const address: PostalAddress = { label: typeLabel(prop) };
+    const streetLines = [street, extended].filter(v => v).join('\n');
+    if (streetLines) address.street = streetLines;
+    if (city) address.city = city;
+    if (region) address.region = region;
+    if (postalCode) address.postal_code = postalCode;
+    if (country) address.country = country;
+    return Object.keys(address).length > 1 ? address : null;
+}
+
+// vCard 3.0 has no date without a year, so Apple writes this year and names it in X-APPLE-OMIT-YEAR
+const OMITTED_YEAR = '1604';
+
+/**
+ * Normalize a BDAY value to YYYY-MM-DD, or --MM-DD when the year is omitted.
+ * Returns undefined for free-text birthdays (VALUE=text).
+ */
+function parseBirthday(value: string, omittedYear?: string): string | undefined {
+    const date = value.trim().split('T')[0];
+    let match = date.match(/^(\d{4})-?(\d{2})-?(\d{2})$/);
+    if (match && match[1] === omittedYear) return `--${match[2]}-${match[3]}`;
+    if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+    match = date.match(/^--(\d{2})-?(\d{2})$/);
+    if (match) return `--${match[1]}-${match[2]}`;
+    return undefined;
+}
+
+function cardFromProperties(props: VCardProperty[]): VCard | null {
+    const byName = (name: string) => props.filter(p => p.name === name);
+    const first = (name: string) => {
+        const prop = byName(name)[0];
+        return prop ? unescapeText(prop.value).trim() : undefined;
+    };
+
+    let name = first('FN');
+    if (!name) {
+        const n = byName('N')[0];
+        if (n) {
+            // N is Family;Given;Additional;Prefix;Suffix
+            const [family, given, additional, prefix, suffix] = splitEscaped(n.value, ';').map(unescapeText);
+            name = [prefix, given, additional, family, suffix].filter(s => s && s.trim()).join(' ').trim();
+        }
+    }
+    if (!name) return null;
+
+    const org = byName('ORG')[0];
+    const categories = byName('CATEGORIES')
+        .reduce((all: string[], p) => all.concat(splitEscaped(p.value, ',')), [])
+        .map(t => unescapeText(t).trim())
+        .filter(t => t);
+    const notes = byName('NOTE').map(p => unescapeText(p.value).trim()).filter(n => n);
+    const bday = byName('BDAY')[0];
+
+    return {
+        name,
+        emails: labeledValues(byName('EMAIL')),
+        phones: labeledValues(byName('TEL')).map(tel => ({ ...tel, value: tel.value.replace(/^tel:/i, '') })),
+        addresses: preferredFirst(byName('ADR'))
+            .map(parseAddress)
+            .filter((address): address is PostalAddress => address !== null),
+        urls: labeledValues(byName('URL')),
+        company: org ? unescapeText(splitEscaped(org.value, ';')[0]).trim() || undefined : undefined,
+        title: first('TITLE') || undefined,
+        notes: notes.length ? notes.join('\n\n') : undefined,
+        tags: categories.length ? categories : undefined,
+        birthday: bday && !(bday.params.VALUE || []).includes('text') ? parseBirthday(bday.value, bday.params['X-APPLE-OMIT-YEAR']?.[0]) : undefined,
+    };
+}
+
+/**
+ * Parse every BEGIN:VCARD … END:VCARD block in a vCard 3.0/4.0 file.
+ * Cards without a usable name are skipped.
+ */
+export function parseVCards(text: string): VCard[] {
+    const cards: VCard[] = [];
+    let current: VCardProperty[] | null = null;
+
+    for (const line of unfold(text)) {
+        if (!line.trim()) continue;
+        const prop = parseProperty(line);
+        if (!prop) continue;
+
+        if (prop.name === 'BEGIN' && prop.value.trim().toUpperCase() === 'VCARD') {
+            current = [];
+        } else if (prop.name === 'END' && prop.value.trim().toUpperCase() === 'VCARD') {
+            if (current) {
+                const card = cardFromProperties(current);
+                if (card) cards.push(card);
+            }
+            current = null;
+        } else if (current) {
+            current.push(prop);
+        }
+    }
+
+    return cards;
+}
+
+/**
+ * Map a parsed card onto a new Contact.
+ */
+export function vCardToContact(card: VCard, now: string): Contact {
+    const list = <T>(items: T[]) => items.length ? items : undefined;
+
+    return {
+        name: card.name,
+        emails: list(card.emails),
+        phones: list(card.phones),
+        addresses: list(card.addresses),
+        urls: list(card.urls),
+        company: card.company,
+        title: card.title,
+        notes: card.notes,
+        tags: card.tags,
+        birthday: card.birthday,
+        created: now,
+        modified: now,
+    };
+}
+
+function utf8Length(ch: string): number {
+    const code = ch.codePointAt(0) || 0;
+    if (code < 0x80) return 1;
+    if (code < 0x800) return 2;
+    if (code < 0x10000) return 3;
+    return 4;
+}
+
+// Lines longer than 75 octets are folded with CRLF + space; iCalendar does the same
+export function fold(line: string): string {
+    const chunks: string[] = [];
+    let current = '';
+    let length = 0;
+    for (const ch of Array.from(line)) {
+        const size = utf8Length(ch);
+        const limit = chunks.length === 0 ? 75 : 74;
+        if (length + size > limit) {
+            chunks.push(current);
+            current = '';
+            length = 0;
+        }
+        current += ch;
+        length += size;
+    }
+    chunks.push(current);
+    return chunks.join('\r\n ');
+}
+
+function splitName(name: string): { given: string; family: string } {
+    const parts = name.trim().split(/\s+/);
+    if (parts.length < 2) return { given: name.trim(), family: '' };
+    return { given: parts.slice(0, -1).join(' '), family: parts[parts.length - 1] };
+}
+
+// Labels are free text, so only pass on the ones that are valid TYPE values
+function typeParam(types: string[]): string {
+    const valid = types.filter(type => /^[A-Za-z0-9-]+$/.test(type));
+    return valid.length ? `;TYPE=${valid.join(',').toUpperCase()}` : '';
+}
+
+function contactToVCard(contact: Contact): string {
+    const { given, family } = splitName(contact.name);
+    const lines = [
+        'BEGIN:VCARD',
+        'VERSION:3.0',
+        `FN:${escapeText(contact.name)}`,
+        `N:${escapeText(family)};${escapeText(given)};;;`,
+    ];
+
+    (contact.emails || []).forEach(email => {
+        lines.push(`EMAIL${typeParam(['INTERNET', email.label])}:${escapeText(email.value)}`);
+    });
+    (contact.phones || []).forEach(phone => {
+        lines.push(`TEL${typeParam([phone.label || 'VOICE'])}:${escapeText(phone.value)}`);
+    });
+    (contact.addresses || []).forEach(address => {
+        const parts = ['', '', address.street, address.city, address.region, address.postal_code, address.country];
+        lines.push(`ADR${typeParam([address.label])}:${parts.map(part => escapeText(part || '')).join(';')}`);
+    });
+    (contact.urls || []).forEach(url => {
+        lines.push(`URL${typeParam([url.label])}:${escapeText(url.value)}`);
+    });
+    if (contact.company) lines.push(`ORG:${escapeText(contact.company)}`);
+    if (contact.title) lines.push(`TITLE:${escapeText(contact.title)}`);
+    const birthday = contact.birthday ? parseBirthday(contact.birthday) : undefined;
+    if (birthday?.startsWith('--')) {
+        lines.push(`BDAY;X-APPLE-OMIT-YEAR=${OMITTED_YEAR}:${OMITTED_YEAR}${birthday.slice(1)}`);
+    } else if (birthday) {
+        lines.push(`BDAY:${birthday}`);
+    }
+    if (contact.tags?.length) lines.push(`CATEGORIES:${contact.tags.map(escapeText).join(',')}`);
+    if (contact.notes) lines.push(`NOTE:${escapeText(contact.notes)}`);
+    lines.push('END:VCARD');
+
+    return lines.map(fold).join('\r\n');
+}
+
+/**
+ * Serialize contacts into a single vCard 3.0 file.
+ */
+export function contactsToVCard(contacts: Contact[]): string {
+    return contacts.map(contactToVCard).join('\r\n') + '\r\n';
+}